@@ -0,0 +1,98 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { ChevronFirst, ChevronLast, Pause, Play, StepBack, StepForward } from "lucide-react"
+
+export const playbackSpeeds = [0.5, 1, 2, 4]
+
+type AlgorithmPlayerProps = {
+  step: number
+  total: number
+  isPlaying: boolean
+  speed: number
+  onStepChange: (step: number) => void
+  onPlayingChange: (isPlaying: boolean) => void
+  onSpeedChange: (speed: number) => void
+}
+
+// Playback controls for stepping through a recorded algorithm trace
+export default function AlgorithmPlayer({
+  step,
+  total,
+  isPlaying,
+  speed,
+  onStepChange,
+  onPlayingChange,
+  onSpeedChange,
+}: AlgorithmPlayerProps) {
+  const togglePlaying = () => {
+    // Restart from the beginning when playing a finished trace
+    if (!isPlaying && step >= total) onStepChange(0)
+    onPlayingChange(!isPlaying)
+  }
+
+  return (
+    <div className="px-4 py-2 bg-slate-50 border-t border-slate-200 flex flex-wrap items-center gap-1">
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onStepChange(0)} disabled={step === 0}>
+        <ChevronFirst />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => onStepChange(step - 1)}
+        disabled={step === 0}
+      >
+        <StepBack />
+      </Button>
+      <Button variant="outline" size="icon" className="h-7 w-7" onClick={togglePlaying}>
+        {isPlaying ? <Pause /> : <Play />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => onStepChange(step + 1)}
+        disabled={step >= total}
+      >
+        <StepForward />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => onStepChange(total)}
+        disabled={step >= total}
+      >
+        <ChevronLast />
+      </Button>
+
+      <input
+        type="range"
+        min={0}
+        max={total}
+        value={step}
+        onChange={(e) => onStepChange(Number(e.target.value))}
+        className="flex-1 min-w-24 mx-2"
+        aria-label="Trace step"
+      />
+      <span className="text-xs text-gray-500 w-16 text-right">
+        {step} / {total}
+      </span>
+
+      <div className="flex gap-1 ml-2">
+        {playbackSpeeds.map((value) => (
+          <Button
+            key={value}
+            variant={speed === value ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => onSpeedChange(value)}
+          >
+            {value}×
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
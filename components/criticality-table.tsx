@@ -0,0 +1,105 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import type { CriticalElement, CriticalityResult, Graph } from "@/lib/graph"
+
+type SortKey = "element" | "kind" | "disconnected" | "population" | "hops"
+
+type CriticalityTableProps = {
+  result: CriticalityResult
+  graph: Graph
+  selected: CriticalElement | null
+  onSelect: (element: CriticalElement | null) => void
+}
+
+const isSameElement = (a: CriticalElement | null, b: CriticalElement | null) =>
+  !!a && !!b && (a.kind === "link" ? b.kind === "link" && a.edge === b.edge : b.kind === "site" && a.node === b.node)
+
+// Damage from losing each link and site, worst first; click a row to find it on the canvas
+export default function CriticalityTable({ result, graph, selected, onSelect }: CriticalityTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("disconnected")
+  const [ascending, setAscending] = useState(false)
+
+  const labelOf = (id: string) => graph.nodes.find((node) => node.id === id)?.label ?? id
+  const rows = result.elements
+    .map((element) =>
+      element.kind === "link"
+        ? {
+            element,
+            key: `link-${element.edge}`,
+            label: `${labelOf(graph.edges[element.edge].source)} – ${labelOf(graph.edges[element.edge].target)}`,
+          }
+        : { element, key: `site-${element.node}`, label: labelOf(element.node) },
+    )
+    .sort((a, b) => {
+      const order =
+        sortKey === "disconnected"
+          ? a.element.disconnected - b.element.disconnected || a.element.populationLost - b.element.populationLost
+          : sortKey === "population"
+            ? a.element.populationLost - b.element.populationLost
+            : sortKey === "hops"
+              ? a.element.hopIncrease - b.element.hopIncrease
+              : sortKey === "kind"
+                ? a.element.kind.localeCompare(b.element.kind)
+                : a.label.localeCompare(b.label)
+      return ascending ? order : -order
+    })
+
+  // Text columns start A to Z, damage columns start with the worst
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setAscending(!ascending)
+    else {
+      setSortKey(key)
+      setAscending(key === "element" || key === "kind")
+    }
+  }
+
+  const header = (key: SortKey, title: string, align = "text-left") => (
+    <th className={`p-1 ${align} cursor-pointer select-none`} onClick={() => sortBy(key)}>
+      {title}
+      {sortKey === key &&
+        (ascending ? <ArrowUp className="inline h-3 w-3 ml-0.5" /> : <ArrowDown className="inline h-3 w-3 ml-0.5" />)}
+    </th>
+  )
+
+  return (
+    <div>
+      <p className="text-xs text-gray-600 mb-1">
+        Each working link and site removed in turn · {result.averageHops.toFixed(2)} hops to the nearest hub on average
+        today
+      </p>
+      <div className="max-h-[180px] overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-gray-100">
+              {header("element", "Link or site")}
+              {header("kind", "Kind")}
+              {header("disconnected", "Cut off", "text-right")}
+              {header("population", "People", "text-right")}
+              {header("hops", "+Hops", "text-right")}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const isSelected = isSameElement(row.element, selected)
+              return (
+                <tr
+                  key={row.key}
+                  className={`border-t border-gray-200 cursor-pointer ${isSelected ? "bg-amber-100" : "hover:bg-gray-50"}`}
+                  onClick={() => onSelect(isSelected ? null : row.element)}
+                >
+                  <td className="p-1">{row.label}</td>
+                  <td className="p-1 capitalize">{row.element.kind}</td>
+                  <td className="p-1 text-right font-medium">{row.element.disconnected}</td>
+                  <td className="p-1 text-right">{row.element.populationLost.toLocaleString()}</td>
+                  <td className="p-1 text-right">{row.element.hopIncrease.toFixed(2)}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { FileSpreadsheet } from "lucide-react"
+import {
+  edgeColumns,
+  guessColumnMapping,
+  importCsvTopology,
+  nodeColumns,
+  parseCsv,
+  type ColumnMapping,
+  type CsvTable,
+  type EdgeColumn,
+  type ImportResult,
+  type NodeColumn,
+} from "@/lib/io"
+
+type CsvImportProps = {
+  onImport: (result: ImportResult, source: string) => void
+}
+
+type LoadedSheet<Field extends string> = {
+  fileName: string
+  table: CsvTable
+  mapping: ColumnMapping<Field>
+}
+
+type ColumnMappingProps<Field extends string> = {
+  title: string
+  sheet: LoadedSheet<Field>
+  fields: readonly Field[]
+  onChange: (mapping: ColumnMapping<Field>) => void
+}
+
+// One dropdown per field, listing the CSV headers
+function ColumnMappingTable<Field extends string>({ title, sheet, fields, onChange }: ColumnMappingProps<Field>) {
+  return (
+    <div className="mt-2">
+      <p className="text-xs font-medium">
+        {title}: {sheet.fileName} ({sheet.table.rows.length} rows)
+      </p>
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1 mt-1">
+        {fields.map((field) => (
+          <label key={field} className="text-xs flex items-center justify-between gap-1">
+            <span className="text-gray-600">{field}</span>
+            <select
+              className="border rounded px-1 py-0.5 text-xs w-24"
+              value={sheet.mapping[field] ?? ""}
+              onChange={(e) => onChange({ ...sheet.mapping, [field]: e.target.value || undefined })}
+            >
+              <option value="">—</option>
+              {sheet.table.headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Load node and edge spreadsheets, map their columns, then build the topology
+export default function CsvImport({ onImport }: CsvImportProps) {
+  const [nodeSheet, setNodeSheet] = useState<LoadedSheet<NodeColumn> | null>(null)
+  const [edgeSheet, setEdgeSheet] = useState<LoadedSheet<EdgeColumn> | null>(null)
+  const nodesInputRef = useRef<HTMLInputElement>(null)
+  const edgesInputRef = useRef<HTMLInputElement>(null)
+
+  const readSheet = async <Field extends string>(
+    e: React.ChangeEvent<HTMLInputElement>,
+    fields: readonly Field[],
+  ): Promise<LoadedSheet<Field> | null> => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return null
+
+    const table = parseCsv(await file.text())
+    return { fileName: file.name, table, mapping: guessColumnMapping(table.headers, fields) }
+  }
+
+  const cancel = () => {
+    setNodeSheet(null)
+    setEdgeSheet(null)
+  }
+
+  const handleImport = () => {
+    if (!nodeSheet) return
+    const files = edgeSheet ? `${nodeSheet.fileName} and ${edgeSheet.fileName}` : nodeSheet.fileName
+    const result = importCsvTopology(nodeSheet, edgeSheet ?? undefined)
+    onImport(result, files)
+    if (result.ok) cancel()
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => nodesInputRef.current?.click()}>
+          <FileSpreadsheet className="h-4 w-4 mr-1" />
+          Nodes CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={!nodeSheet}
+          onClick={() => edgesInputRef.current?.click()}
+        >
+          <FileSpreadsheet className="h-4 w-4 mr-1" />
+          Edges CSV
+        </Button>
+        <input
+          ref={nodesInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={async (e) => setNodeSheet(await readSheet(e, nodeColumns))}
+        />
+        <input
+          ref={edgesInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={async (e) => setEdgeSheet(await readSheet(e, edgeColumns))}
+        />
+      </div>
+
+      {nodeSheet && (
+        <div className="mt-2 p-2 bg-gray-50 border rounded">
+          <ColumnMappingTable
+            title="Sites"
+            sheet={nodeSheet}
+            fields={nodeColumns}
+            onChange={(mapping) => setNodeSheet({ ...nodeSheet, mapping })}
+          />
+          {edgeSheet && (
+            <ColumnMappingTable
+              title="Links"
+              sheet={edgeSheet}
+              fields={edgeColumns}
+              onChange={(mapping) => setEdgeSheet({ ...edgeSheet, mapping })}
+            />
+          )}
+          <p className="text-xs text-gray-500 mt-2">
+            Map lat/lng to place sites geographically, or x/y for canvas positions
+          </p>
+          <div className="flex gap-2 mt-2">
+            <Button size="sm" className="flex-1" onClick={handleImport}>
+              Import CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={cancel}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
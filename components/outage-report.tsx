@@ -0,0 +1,109 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import { reliabilityColor } from "@/components/reliability-table"
+import { linksDownAt, type Graph, type OutageSimulationResult } from "@/lib/graph"
+
+type SortKey = "site" | "availability" | "downtime" | "outages"
+
+type OutageReportProps = {
+  result: OutageSimulationResult
+  graph: Graph
+  time: number
+  onTimeChange: (time: number) => void
+}
+
+const hours = (value: number) => (value >= 48 ? `${(value / 24).toFixed(1)} d` : `${value.toFixed(1)} h`)
+
+// Timeline of a simulated outage run with a replay slider and per-site availability, sortable by column
+export default function OutageReport({ result, graph, time, onTimeChange }: OutageReportProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("availability")
+  const [ascending, setAscending] = useState(true)
+
+  const label = (id: string) => graph.nodes.find((node) => node.id === id)?.label ?? id
+  const down = linksDownAt(result, time)
+  const repairing = result.events.filter((event) => event.time <= time && event.type === "repair-start").length
+  const repaired = result.events.filter((event) => event.time <= time && event.type === "repair").length
+  const busyCrews = repairing - repaired
+
+  const rows = result.sites
+    .map((site) => ({ ...site, label: label(site.node) }))
+    .sort((a, b) => {
+      const order = sortKey === "site" ? a.label.localeCompare(b.label) : a[sortKey] - b[sortKey]
+      return ascending ? order : -order
+    })
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setAscending(!ascending)
+    else {
+      setSortKey(key)
+      setAscending(true)
+    }
+  }
+
+  const header = (key: SortKey, title: string, align = "text-right") => (
+    <th className={`p-1 ${align} cursor-pointer select-none`} onClick={() => sortBy(key)}>
+      {title}
+      {sortKey === key &&
+        (ascending ? <ArrowUp className="inline h-3 w-3 ml-0.5" /> : <ArrowDown className="inline h-3 w-3 ml-0.5" />)}
+    </th>
+  )
+
+  return (
+    <div>
+      <p className="text-xs text-gray-600 mb-1">
+        {hours(result.duration)} simulated · {result.crews} {result.crews === 1 ? "crew" : "crews"} ·{" "}
+        {result.events.filter((event) => event.type === "fail").length} link failures · total site downtime{" "}
+        {hours(result.totalDowntime)}
+      </p>
+
+      <input
+        type="range"
+        className="w-full"
+        min={0}
+        max={result.duration}
+        step={result.duration / 500}
+        value={time}
+        onChange={(e) => onTimeChange(Number(e.target.value))}
+      />
+      <p className="text-xs mb-2">
+        <span className="font-medium">{hours(time)}:</span>{" "}
+        {down.length === 0
+          ? "every link up"
+          : `${down.length} links down (${down
+              .map((idx) => `${label(graph.edges[idx].source)} – ${label(graph.edges[idx].target)}`)
+              .join(", ")}) · ${busyCrews} crews repairing, ${down.length - busyCrews} waiting`}
+      </p>
+
+      <div className="max-h-[160px] overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-gray-100">
+              {header("site", "Site", "text-left")}
+              {header("availability", "Availability")}
+              {header("downtime", "Downtime")}
+              {header("outages", "Outages")}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.node} className="border-t border-gray-200">
+                <td className="p-1">
+                  <span
+                    className="inline-block w-2 h-2 rounded-full mr-1"
+                    style={{ backgroundColor: reliabilityColor(row.availability) }}
+                  />
+                  {row.label}
+                </td>
+                <td className="p-1 text-right font-medium">{(row.availability * 100).toFixed(2)}%</td>
+                <td className="p-1 text-right">{hours(row.downtime)}</td>
+                <td className="p-1 text-right">{row.outages}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
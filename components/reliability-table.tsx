@@ -0,0 +1,95 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import type { Node, ReliabilityResult } from "@/lib/graph"
+
+type SortKey = "site" | "type" | "probability"
+
+type ReliabilityTableProps = {
+  result: ReliabilityResult
+  nodes: Node[]
+}
+
+// Red for sites that rarely reach a hub, through amber, to green for sites that almost always do
+export const reliabilityColor = (probability: number) => `hsl(${Math.round(probability * 120)}, 70%, 45%)`
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+// Per-site Monte Carlo estimates, sortable by clicking a column header
+export default function ReliabilityTable({ result, nodes }: ReliabilityTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("probability")
+  const [ascending, setAscending] = useState(true)
+
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  const rows = result.sites
+    .map((site) => ({
+      ...site,
+      label: nodesById.get(site.node)?.label ?? site.node,
+      type: nodesById.get(site.node)?.type,
+    }))
+    .sort((a, b) => {
+      const order =
+        sortKey === "probability"
+          ? a.probability - b.probability
+          : sortKey === "type"
+            ? String(a.type).localeCompare(String(b.type))
+            : a.label.localeCompare(b.label)
+      return ascending ? order : -order
+    })
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setAscending(!ascending)
+    else {
+      setSortKey(key)
+      setAscending(true)
+    }
+  }
+
+  const header = (key: SortKey, title: string, align = "text-left") => (
+    <th className={`p-1 ${align} cursor-pointer select-none`} onClick={() => sortBy(key)}>
+      {title}
+      {sortKey === key &&
+        (ascending ? <ArrowUp className="inline h-3 w-3 ml-0.5" /> : <ArrowDown className="inline h-3 w-3 ml-0.5" />)}
+    </th>
+  )
+
+  return (
+    <div>
+      <p className="text-xs text-gray-600 mb-1">
+        {result.samples.toLocaleString()} random failure states · {Math.round(result.confidence * 100)}% confidence
+        intervals
+      </p>
+      <div className="max-h-[180px] overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-gray-100">
+              {header("site", "Site")}
+              {header("type", "Type")}
+              {header("probability", "P(reach hub)", "text-right")}
+              <th className="p-1 text-right">Interval</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.node} className="border-t border-gray-200">
+                <td className="p-1">
+                  <span
+                    className="inline-block w-2 h-2 rounded-full mr-1"
+                    style={{ backgroundColor: reliabilityColor(row.probability) }}
+                  />
+                  {row.label}
+                </td>
+                <td className="p-1 capitalize">{row.type}</td>
+                <td className="p-1 text-right font-medium">{percent(row.probability)}</td>
+                <td className="p-1 text-right text-gray-500">
+                  {percent(row.low)}–{percent(row.high)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
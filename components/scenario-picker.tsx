@@ -0,0 +1,57 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Zap } from "lucide-react"
+import { findScenario, scenarios, type Scenario } from "@/lib/graph"
+
+type ScenarioPickerProps = {
+  // Loaded scenario, or null once the topology came from a file or the editor
+  scenarioId: string | null
+  onLoad: (scenario: Scenario) => void
+  onStartDrill: (scenario: Scenario) => void
+}
+
+// Pick one of the bundled topologies and start its preset failure drill
+export default function ScenarioPicker({ scenarioId, onLoad, onStartDrill }: ScenarioPickerProps) {
+  const scenario = scenarioId ? findScenario(scenarioId) : undefined
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Scenarios</CardTitle>
+        <CardDescription>Bundled networks for lessons and team drills</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <select
+          className="w-full border rounded px-2 py-1 text-sm"
+          value={scenarioId ?? ""}
+          onChange={(e) => {
+            const next = findScenario(e.target.value)
+            if (next) onLoad(next)
+          }}
+        >
+          {!scenario && <option value="">Custom topology</option>}
+          {scenarios.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+
+        {scenario && (
+          <>
+            <p className="text-xs text-gray-600 mt-2">{scenario.description}</p>
+            <p className="text-xs mt-2">
+              <span className="font-medium">Drill:</span> {scenario.drill}
+            </p>
+            <Button variant="outline" size="sm" className="w-full mt-2" onClick={() => onStartDrill(scenario)}>
+              <Zap className="h-4 w-4 mr-1" />
+              Start Drill
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Copy, FolderOpen, Pencil, Save, Trash2 } from "lucide-react"
+import {
+  deleteSession,
+  duplicateSession,
+  loadSessions,
+  renameSession,
+  saveSession,
+  type SavedSession,
+  type SessionState,
+} from "@/lib/io"
+
+type SessionManagerProps = {
+  captureState: () => SessionState
+  onLoad: (state: SessionState) => void
+}
+
+// Save the simulator state under a name in local storage and bring it back later
+export default function SessionManager({ captureState, onLoad }: SessionManagerProps) {
+  const [sessions, setSessions] = useState<SavedSession[]>([])
+  const [skipped, setSkipped] = useState<string[]>([])
+  const [name, setName] = useState("")
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameTo, setRenameTo] = useState("")
+
+  // Local storage only exists in the browser, so read it after mounting
+  useEffect(() => {
+    const loaded = loadSessions(window.localStorage)
+    setSessions(loaded.sessions)
+    setSkipped(loaded.skipped)
+  }, [])
+
+  // Local storage can be full or switched off, so a failed write is reported next to the skipped saves
+  const writeSessions = (write: () => SavedSession[]) => {
+    try {
+      setSessions(write())
+      return true
+    } catch (error) {
+      const reason =
+        error instanceof DOMException && error.name === "QuotaExceededError" ? "browser storage is full" : String(error)
+      setSkipped((messages) => [...messages, `Could not save: ${reason}`])
+      return false
+    }
+  }
+
+  const handleSave = () => {
+    const sessionName = name.trim() || `Session ${new Date().toLocaleString()}`
+    if (writeSessions(() => saveSession(window.localStorage, sessionName, captureState()))) setName("")
+  }
+
+  const handleRename = (id: string) => {
+    if (renameTo.trim()) writeSessions(() => renameSession(window.localStorage, id, renameTo.trim()))
+    setRenamingId(null)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Saved Sessions</CardTitle>
+        <CardDescription>Keep failures, recovery links and results in this browser</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-2">
+          <input
+            className="flex-1 border rounded px-2 py-1 text-sm"
+            placeholder="Session name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          />
+          <Button size="sm" onClick={handleSave}>
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </div>
+
+        {skipped.length > 0 && (
+          <ul className="text-xs text-amber-700 list-disc pl-4 mt-2">
+            {skipped.map((message, idx) => (
+              <li key={idx}>{message}</li>
+            ))}
+          </ul>
+        )}
+
+        {sessions.length > 0 ? (
+          <ul className="mt-2 divide-y border rounded max-h-60 overflow-y-auto">
+            {sessions.map((session) => (
+              <li key={session.id} className="p-2">
+                {renamingId === session.id ? (
+                  <div className="flex gap-1">
+                    <input
+                      autoFocus
+                      className="flex-1 border rounded px-1 text-xs"
+                      value={renameTo}
+                      onChange={(e) => setRenameTo(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRename(session.id)
+                        if (e.key === "Escape") setRenamingId(null)
+                      }}
+                    />
+                    <Button size="sm" className="h-6 px-2 text-xs" onClick={() => handleRename(session.id)}>
+                      OK
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-1">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{session.name}</p>
+                      <p className="text-xs text-gray-500">{new Date(session.updatedAt).toLocaleString()}</p>
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1"
+                        title="Load"
+                        onClick={() => onLoad(session.state)}
+                      >
+                        <FolderOpen className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1"
+                        title="Rename"
+                        onClick={() => {
+                          setRenamingId(session.id)
+                          setRenameTo(session.name)
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1"
+                        title="Duplicate"
+                        onClick={() => writeSessions(() => duplicateSession(window.localStorage, session.id))}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1 text-red-600"
+                        title="Delete"
+                        onClick={() => writeSessions(() => deleteSession(window.localStorage, session.id))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500 italic mt-2">No saved sessions yet</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
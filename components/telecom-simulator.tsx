@@ -2,413 +2,767 @@
 
 import type React from "react"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
+import AlgorithmPlayer from "@/components/algorithm-player"
+import CriticalityTable from "@/components/criticality-table"
+import OutageReport from "@/components/outage-report"
+import ReliabilityTable, { reliabilityColor } from "@/components/reliability-table"
+import ScenarioPicker from "@/components/scenario-picker"
+import SessionManager from "@/components/session-manager"
+import TopologyIO from "@/components/topology-io"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { AlertCircle, Zap, Network, RefreshCw } from "lucide-react"
-
-// Define types for our graph
-type Node = {
-  id: string
-  label: string
-  x: number
-  y: number
-  type: "city" | "barangay" | "hub"
-  isArticulationPoint?: boolean
-}
-
-type Edge = {
-  source: string
-  target: string
-  isBridge?: boolean
-  isActive: boolean
-  isRecovery?: boolean
-}
-
-type Graph = {
-  nodes: Node[]
-  edges: Edge[]
-}
-
-// Initial graph representing telecom infrastructure in rural Philippines
-const initialGraph: Graph = {
-  nodes: [
-    { id: "1", label: "Cebu Hub", x: 300, y: 100, type: "hub" },
-    { id: "2", label: "Cebu City", x: 200, y: 180, type: "city" },
-    { id: "3", label: "Mandaue Hub", x: 150, y: 250, type: "hub" },
-    { id: "4", label: "Banilad", x: 100, y: 320, type: "city" },
-    { id: "5", label: "Subangdaku", x: 200, y: 320, type: "city" },
-    { id: "6", label: "Nau", x: 250, y: 380, type: "barangay" },
-    { id: "7", label: "Baco", x: 150, y: 380, type: "barangay" },
-    { id: "8", label: "Palawan Hub", x: 50, y: 200, type: "hub" },
-    { id: "9", label: "El Nido", x: 30, y: 280, type: "city" },
-    { id: "10", label: "Puerto Princesa", x: 80, y: 350, type: "city" },
-    { id: "11", label: "Quezon Hub", x: 400, y: 180, type: "hub" },
-    { id: "12", label: "Lucena", x: 450, y: 250, type: "city" },
-    { id: "13", label: "Tayabas", x: 500, y: 300, type: "barangay" },
-  ],
-  edges: [
-    { source: "1", target: "2", isActive: true },
-    { source: "1", target: "11", isActive: true },
-    { source: "2", target: "3", isActive: true },
-    { source: "2", target: "8", isActive: true },
-    { source: "3", target: "4", isActive: true },
-    { source: "3", target: "5", isActive: true },
-    { source: "4", target: "7", isActive: true },
-    { source: "5", target: "6", isActive: true },
-    { source: "5", target: "7", isActive: true },
-    { source: "8", target: "9", isActive: true },
-    { source: "8", target: "10", isActive: true },
-    { source: "11", target: "12", isActive: true },
-    { source: "12", target: "13", isActive: true },
-  ],
+import {
+  AlertCircle,
+  Zap,
+  Network,
+  RefreshCw,
+  Pencil,
+  Share2,
+  Undo2,
+  Redo2,
+  Clock,
+  Activity,
+  ListOrdered,
+} from "lucide-react"
+import {
+  addEdge,
+  addNode,
+  applyAreaOutage,
+  applyScenarioFailures,
+  buildHubDemands,
+  commitRecoveryLink,
+  connects,
+  decomposeNetwork,
+  DEFAULT_DEMAND_MBPS,
+  DEFAULT_FAILURE_PROBABILITY,
+  DEFAULT_MTBF_HOURS,
+  DEFAULT_MTTR_HOURS,
+  DEFAULT_RELIABILITY_SAMPLES,
+  DEFAULT_SIMULATION_HOURS,
+  describeTraceEvent,
+  distanceUnit,
+  edgeMetrics,
+  estimateReliability,
+  findCriticalPoints,
+  findDisjointPaths,
+  findEdgeAt,
+  findHubConnected,
+  findMaxFlow,
+  findShortestPath,
+  findWeightedPath,
+  formatWeight,
+  getEdgeCapacity,
+  getEdgeWeight,
+  getPathWeight,
+  indexNodes,
+  initialGraph,
+  linksDownAt,
+  measureOutageImpact,
+  moveNode,
+  nextNodeId,
+  planRedundancy,
+  proposeRecovery,
+  rankCriticality,
+  removeEdge,
+  removeNode,
+  replayTrace,
+  routeTraffic,
+  scenarios,
+  simulateOutages,
+  updateNode,
+  type AreaOutageResult,
+  type CriticalElement,
+  type CriticalityResult,
+  type DecompositionResult,
+  type DisasterArea,
+  type DisjointMode,
+  type DisjointPathsResult,
+  type Edge,
+  type EdgeMetric,
+  type Graph,
+  type Node,
+  type NodeType,
+  type OutageSimulationResult,
+  type RecoveryResult,
+  type RedundancyGoal,
+  type RedundancyObjective,
+  type RedundancyPlan,
+  type ReliabilityResult,
+  type Scenario,
+  type TraceEvent,
+  type WeightedAlgorithm,
+} from "@/lib/graph"
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  currentEntry,
+  jumpTo,
+  pushHistory,
+  redo,
+  undo,
+  type History,
+} from "@/lib/history"
+import { decodeShareLink, encodeShareLink, type SessionState, type SimulatorMode } from "@/lib/io"
+
+// Distinct colors for connected components on the canvas
+const componentColors = ["#3b82f6", "#10b981", "#f59e0b", "#ec4899", "#14b8a6", "#a855f7", "#ef4444", "#84cc16"]
+
+// One color per backup path, starting with the primary route's green
+const disjointColors = ["#00cc00", "#2563eb", "#d946ef", "#0891b2"]
+
+// Green for idle links through amber to red at full capacity
+const utilizationColor = (utilization: number) => `hsl(${Math.round(120 - Math.min(utilization, 1) * 120)}, 80%, 42%)`
+
+// What undo and redo bring back
+type HistorySnapshot = {
+  graph: Graph
+  mode: SimulatorMode
+  recoveryEdges: Edge[]
 }
 
 export default function TelecomSimulator() {
   const [graph, setGraph] = useState<Graph>(initialGraph)
+  // Topology that Reset returns to
+  const [baseGraph, setBaseGraph] = useState<Graph>(initialGraph)
+  const [scenarioId, setScenarioId] = useState<string | null>(scenarios[0].id)
   const [selectedNode, setSelectedNode] = useState<string | null>(null)
   const [targetNode, setTargetNode] = useState<string | null>(null)
   const [algorithmResult, setAlgorithmResult] = useState<string[]>([])
   const [path, setPath] = useState<string[]>([])
   const [bridges, setBridges] = useState<Edge[]>([])
   const [articulationPoints, setArticulationPoints] = useState<Node[]>([])
-  const [mode, setMode] = useState<"normal" | "failure">("normal")
+  const [mode, setMode] = useState<SimulatorMode>("normal")
   const [recoveryEdges, setRecoveryEdges] = useState<Edge[]>([])
+  const [recoveryStats, setRecoveryStats] = useState<Pick<
+    RecoveryResult,
+    "proposals" | "totalDistance" | "baseline"
+  > | null>(null)
+  const [weightMetric, setWeightMetric] = useState<EdgeMetric>("distance")
+  const [weightedAlgorithm, setWeightedAlgorithm] = useState<WeightedAlgorithm>("dijkstra")
+  // Mbps each city and barangay needs to its nearest hub, and the resulting load while the overlay is on
+  const [demandMbps, setDemandMbps] = useState({
+    city: DEFAULT_DEMAND_MBPS.city ?? 0,
+    barangay: DEFAULT_DEMAND_MBPS.barangay ?? 0,
+  })
+  const [showTraffic, setShowTraffic] = useState(false)
+  const [outageHours, setOutageHours] = useState(DEFAULT_SIMULATION_HOURS)
+  const [repairCrews, setRepairCrews] = useState(1)
+  const [outageSimulation, setOutageSimulation] = useState<OutageSimulationResult | null>(null)
+  // Moment of the outage simulation shown on the map
+  const [outageTime, setOutageTime] = useState(0)
+  const [redundancyGoal, setRedundancyGoal] = useState<RedundancyGoal>("two-edge")
+  const [redundancyObjective, setRedundancyObjective] = useState<RedundancyObjective>("fewest")
+  const [redundancyPlan, setRedundancyPlan] = useState<RedundancyPlan | null>(null)
+  const [disjointMode, setDisjointMode] = useState<DisjointMode>("edge")
+  const [disjointCount, setDisjointCount] = useState(2)
+  const [disjointPaths, setDisjointPaths] = useState<DisjointPathsResult | null>(null)
+  const [maxFlow, setMaxFlow] = useState<number | null>(null)
+  const [minCutEdges, setMinCutEdges] = useState<Edge[]>([])
+  const [components, setComponents] = useState<string[][]>([])
+  const [decomposition, setDecomposition] = useState<DecompositionResult | null>(null)
+  const [failureTool, setFailureTool] = useState<"toggle" | "circle" | "polygon">("toggle")
+  // Area being drawn in failure mode, and the last area outage with its report
+  const [areaDraft, setAreaDraft] = useState<DisasterArea | null>(null)
+  const [areaOutage, setAreaOutage] = useState<(Omit<AreaOutageResult, "graph"> & { area: DisasterArea }) | null>(null)
+  const drawingCircle = useRef(false)
+  const [reliability, setReliability] = useState<ReliabilityResult | null>(null)
+  const [reliabilitySamples, setReliabilitySamples] = useState(DEFAULT_RELIABILITY_SAMPLES)
+  // Damage from losing each link and site, and the row picked to highlight on the canvas
+  const [criticality, setCriticality] = useState<CriticalityResult | null>(null)
+  const [criticalSelection, setCriticalSelection] = useState<CriticalElement | null>(null)
+  const [decompositionView, setDecompositionView] = useState<"blocks" | "two-edge">("blocks")
+  const [trace, setTrace] = useState<TraceEvent[]>([])
+  // Step being replayed on the canvas, or null when showing the finished result
+  const [playbackStep, setPlaybackStep] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [playbackSpeed, setPlaybackSpeed] = useState(1)
+  const [editTool, setEditTool] = useState<"move" | "add-node" | "add-link" | "delete">("move")
+  const [newNodeType, setNewNodeType] = useState<NodeType>("city")
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null)
+  const [linkStart, setLinkStart] = useState<string | null>(null)
+  const draggingNodeId = useRef<string | null>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [history, setHistory] = useState<History<HistorySnapshot>>(() =>
+    createHistory("Start", { graph: initialGraph, mode: "normal", recoveryEdges: [] }),
+  )
+  // Label for the history entry the next state change records, set by undoable actions
+  const pendingHistory = useRef<{ label: string; merge: boolean } | null>(null)
+
+  const recordHistory = (label: string, merge = false) => {
+    pendingHistory.current = { label, merge }
+  }
+
+  // Replace the simulator state with a topology, clearing every result
+  const loadGraph = (nextGraph: Graph) => {
+    setGraph(nextGraph)
+    setSelectedNode(null)
+    setTargetNode(null)
+    setAlgorithmResult([])
+    setPath([])
+    setDisjointPaths(null)
+    setRedundancyPlan(null)
+    setOutageSimulation(null)
+    setBridges([])
+    setArticulationPoints([])
+    setRecoveryEdges([])
+    setRecoveryStats(null)
+    setMaxFlow(null)
+    setMinCutEdges([])
+    setComponents([])
+    setDecomposition(null)
+    setReliability(null)
+    setCriticality(null)
+    setCriticalSelection(null)
+    setAreaDraft(null)
+    setAreaOutage(null)
+    showTrace([])
+    setEditingNodeId(null)
+    setLinkStart(null)
+    setMode("normal")
+  }
 
   // Reset the simulation
   const resetSimulation = () => {
-    setGraph({
-      nodes: initialGraph.nodes.map((node) => ({
+    recordHistory("Reset")
+    loadGraph({
+      nodes: baseGraph.nodes.map((node) => ({
         ...node,
         isArticulationPoint: false,
+        isFailed: false,
       })),
-      edges: initialGraph.edges.map((edge) => ({
+      edges: baseGraph.edges.map((edge) => ({
         ...edge,
         isBridge: false,
         isActive: true,
       })),
     })
-    setSelectedNode(null)
-    setTargetNode(null)
-    setAlgorithmResult([])
+  }
+
+  // Load an imported topology, which also becomes the one Reset returns to
+  const importGraph = (importedGraph: Graph) => {
+    recordHistory("Imported topology")
+    setBaseGraph(importedGraph)
+    setScenarioId(null)
+    loadGraph(importedGraph)
+  }
+
+  // Switch to a bundled scenario with every site and link up
+  const loadScenario = (scenario: Scenario) => {
+    recordHistory(`Loaded ${scenario.name}`)
+    setBaseGraph(scenario.graph)
+    setScenarioId(scenario.id)
+    loadGraph(scenario.graph)
+  }
+
+  // Reload a scenario with its preset failures and hand over to failure mode
+  const startDrill = (scenario: Scenario) => {
+    loadScenario(scenario)
+    recordHistory(`Started ${scenario.name} drill`)
+    setGraph(applyScenarioFailures(scenario.graph, scenario.failures))
+    setMode("failure")
+    showMessage(`Drill started: ${scenario.drill}`)
+  }
+
+  // Snapshot what a saved session keeps
+  const captureSession = (): SessionState => ({
+    graph,
+    baseGraph,
+    scenarioId,
+    source: selectedNode,
+    target: targetNode,
+    mode,
+    recoveryEdges,
+    recoveryStats,
+    path,
+    components,
+    maxFlow,
+    minCutEdges,
+    log: algorithmResult,
+  })
+
+  // Bring back a saved session, including its analysis results
+  const restoreSession = (session: SessionState) => {
+    recordHistory("Loaded saved session")
+    setBaseGraph(session.baseGraph)
+    setScenarioId(session.scenarioId)
+    loadGraph(session.graph)
+    setBridges(session.graph.edges.filter((edge) => edge.isBridge))
+    setArticulationPoints(session.graph.nodes.filter((node) => node.isArticulationPoint))
+    setSelectedNode(session.source)
+    setTargetNode(session.target)
+    setMode(session.mode)
+    setRecoveryEdges(session.recoveryEdges)
+    setRecoveryStats(session.recoveryStats)
+    setPath(session.path)
+    setComponents(session.components)
+    setMaxFlow(session.maxFlow)
+    setMinCutEdges(session.minCutEdges)
+    setAlgorithmResult(session.log)
+  }
+
+  // Clear previous results when topology changes
+  const clearTopologyResults = () => {
     setPath([])
-    setBridges([])
-    setArticulationPoints([])
-    setRecoveryEdges([])
-    setMode("normal")
+    setDisjointPaths(null)
+    setRedundancyPlan(null)
+    setOutageSimulation(null)
+    setMaxFlow(null)
+    setMinCutEdges([])
+    setComponents([])
+    setDecomposition(null)
+    setReliability(null)
+    setCriticality(null)
+    setCriticalSelection(null)
+    showTrace([])
   }
 
-  // Toggle edge failure
-  const toggleEdge = (sourceId: string, targetId: string) => {
+  // Toggle edge failure by its position in the edge list, so parallel links toggle independently
+  const toggleEdge = (edgeIndex: number) => {
+    const edge = graph.edges[edgeIndex]
+    recordHistory(
+      `${edge.isActive ? "Failed" : "Restored"} link ${getNodeLabel(edge.source)} – ${getNodeLabel(edge.target)}`,
+    )
     setGraph((prevGraph) => ({
       ...prevGraph,
-      edges: prevGraph.edges.map((edge) => {
-        if (
-          (edge.source === sourceId && edge.target === targetId) ||
-          (edge.source === targetId && edge.target === sourceId)
-        ) {
-          return { ...edge, isActive: !edge.isActive }
-        }
-        return edge
-      }),
+      edges: prevGraph.edges.map((edge, idx) => (idx === edgeIndex ? { ...edge, isActive: !edge.isActive } : edge)),
     }))
-    // Clear previous results when topology changes
-    setPath([])
-    setAlgorithmResult([])
+    clearTopologyResults()
   }
 
-  // Run DFS to find bridges and articulation points
-  const runDFS = () => {
-    // Reset previous results
-    setPath([])
-    setAlgorithmResult([])
+  // Toggle node (site) failure
+  const toggleNode = (nodeId: string) => {
+    recordHistory(`${isNodeFailed(nodeId) ? "Restored" : "Failed"} site ${getNodeLabel(nodeId)}`)
+    setGraph((prevGraph) => ({
+      ...prevGraph,
+      nodes: prevGraph.nodes.map((node) => (node.id === nodeId ? { ...node, isFailed: !node.isFailed } : node)),
+    }))
+    clearTopologyResults()
+  }
 
-    const visited: Record<string, boolean> = {}
-    const discoveryTime: Record<string, number> = {}
-    const lowTime: Record<string, number> = {}
-    const parent: Record<string, string | null> = {}
-    const foundBridges: Edge[] = []
-    const foundArticulationPoints: Set<string> = new Set()
-    let time = 0
+  // Apply a topology edit and drop results computed for the old topology. An edited network is no longer the
+  // bundled scenario, so the picker stops offering that scenario's description and drill.
+  const editTopology = (label: string, update: (prevGraph: Graph) => Graph, merge = false) => {
+    recordHistory(label, merge)
+    setGraph(update)
+    setScenarioId(null)
+    setBridges([])
+    setArticulationPoints([])
+    clearTopologyResults()
+  }
 
-    // Only consider active edges
-    const activeEdges = graph.edges.filter((edge) => edge.isActive)
+  // Delete a site, its links and anything that still refers to it
+  const deleteNode = (nodeId: string) => {
+    editTopology(`Deleted site ${getNodeLabel(nodeId)}`, (prevGraph) => removeNode(prevGraph, nodeId))
+    setRecoveryEdges((prevEdges) => prevEdges.filter((edge) => edge.source !== nodeId && edge.target !== nodeId))
+    if (selectedNode === nodeId || targetNode === nodeId) {
+      setSelectedNode(null)
+      setTargetNode(null)
+    }
+    if (editingNodeId === nodeId) setEditingNodeId(null)
+  }
 
-    // Build adjacency list
-    const adjList: Record<string, string[]> = {}
-    graph.nodes.forEach((node) => {
-      adjList[node.id] = []
-    })
+  // Accept a proposed recovery link and merge it into the topology
+  const acceptRecoveryEdge = (proposal: Edge) => {
+    recordHistory(`Accepted recovery link ${getNodeLabel(proposal.source)} – ${getNodeLabel(proposal.target)}`)
+    setGraph((prevGraph) => commitRecoveryLink(prevGraph, proposal))
+    setRecoveryEdges((prevEdges) => prevEdges.filter((edge) => edge !== proposal))
+    clearTopologyResults()
+  }
 
-    activeEdges.forEach((edge) => {
-      adjList[edge.source].push(edge.target)
-      adjList[edge.target].push(edge.source)
-    })
+  // Discard a proposed recovery link
+  const rejectRecoveryEdge = (proposal: Edge) => {
+    recordHistory(`Rejected recovery link ${getNodeLabel(proposal.source)} – ${getNodeLabel(proposal.target)}`)
+    setRecoveryEdges((prevEdges) => prevEdges.filter((edge) => edge !== proposal))
+  }
 
-    // DFS function
-    const dfsVisit = (u: string, isRoot: boolean) => {
-      const result: string[] = []
-      result.push(`Visiting ${getNodeLabel(u)}`)
-
-      visited[u] = true
-      time += 1
-      discoveryTime[u] = time
-      lowTime[u] = time
-      let childCount = 0
-
-      for (const v of adjList[u]) {
-        if (!visited[v]) {
-          childCount++
-          parent[v] = u
-          result.push(`Exploring edge from ${getNodeLabel(u)} to ${getNodeLabel(v)}`)
-
-          const childResults = dfsVisit(v, false)
-          result.push(...childResults)
-
-          lowTime[u] = Math.min(lowTime[u], lowTime[v])
-
-          // Check for articulation point
-          if (!isRoot && lowTime[v] >= discoveryTime[u]) {
-            result.push(`Found articulation point: ${getNodeLabel(u)}`)
-            foundArticulationPoints.add(u)
-          }
-
-          // Check for bridge
-          if (lowTime[v] > discoveryTime[u]) {
-            result.push(`Found bridge: ${getNodeLabel(u)} - ${getNodeLabel(v)}`)
-            const bridgeEdge = activeEdges.find(
-              (edge) => (edge.source === u && edge.target === v) || (edge.source === v && edge.target === u),
-            )
-            if (bridgeEdge) {
-              foundBridges.push(bridgeEdge)
-            }
-          }
-        } else if (v !== parent[u]) {
-          lowTime[u] = Math.min(lowTime[u], discoveryTime[v])
-          result.push(`Back edge from ${getNodeLabel(u)} to ${getNodeLabel(v)}`)
-        }
-      }
+  const acceptAllRecoveryEdges = () => {
+    recordHistory(`Accepted ${recoveryEdges.length} recovery links`)
+    setGraph((prevGraph) => recoveryEdges.reduce(commitRecoveryLink, prevGraph))
+    setRecoveryEdges([])
+    clearTopologyResults()
+  }
 
-      // Special case for root
-      if (isRoot && childCount > 1) {
-        result.push(`Root is an articulation point: ${getNodeLabel(u)}`)
-        foundArticulationPoints.add(u)
-      }
+  // Show a finished algorithm trace in the log and reset playback
+  const showTrace = (events: TraceEvent[]) => {
+    setTrace(events)
+    setAlgorithmResult(events.map((event) => describeTraceEvent(event, getNodeLabel)))
+    setPlaybackStep(null)
+    setIsPlaying(false)
+  }
 
-      return result
-    }
+  // Show a plain message in the log instead of a trace
+  const showMessage = (message: string) => {
+    showTrace([])
+    setAlgorithmResult([message])
+  }
 
-    // Start DFS from the first node
-    const startNode = graph.nodes[0].id
-    const dfsResults = dfsVisit(startNode, true)
-
-    // Update state with results
-    setAlgorithmResult(dfsResults)
-
-    // Update bridges in the graph
-    const updatedEdges = graph.edges.map((edge) => ({
-      ...edge,
-      isBridge: foundBridges.some(
-        (bridge) =>
-          (bridge.source === edge.source && bridge.target === edge.target) ||
-          (bridge.source === edge.target && bridge.target === edge.source),
-      ),
-    }))
+  // Run DFS to find bridges and articulation points
+  const runDFS = () => {
+    // Reset previous results
+    setPath([])
 
-    // Update articulation points in the graph
-    const updatedNodes = graph.nodes.map((node) => ({
-      ...node,
-      isArticulationPoint: foundArticulationPoints.has(node.id),
-    }))
+    const {
+      bridges: foundBridges,
+      articulationPoints: foundArticulationPoints,
+      components: foundComponents,
+      trace,
+    } = findCriticalPoints(graph)
 
-    setGraph({
-      nodes: updatedNodes,
-      edges: updatedEdges,
-    })
+    showTrace(trace)
+
+    // Update bridges and articulation points in the graph
+    const updatedGraph: Graph = {
+      nodes: graph.nodes.map((node) => ({
+        ...node,
+        isArticulationPoint: foundArticulationPoints.includes(node.id),
+      })),
+      edges: graph.edges.map((edge) => ({
+        ...edge,
+        isBridge: foundBridges.includes(edge),
+      })),
+    }
 
+    setGraph(updatedGraph)
     setBridges(foundBridges)
-    setArticulationPoints(updatedNodes.filter((node) => node.isArticulationPoint))
+    setArticulationPoints(updatedGraph.nodes.filter((node) => node.isArticulationPoint))
+    setComponents(foundComponents)
+  }
+
+  // Suggest new links that leave no bridges, and optionally no articulation points, ranked by length
+  const runRedundancyPlanner = () => {
+    const plan = planRedundancy(graph, { goal: redundancyGoal, objective: redundancyObjective })
+
+    setRedundancyPlan(plan)
+    showMessage(
+      plan.proposals.length === 0
+        ? "No new links needed: no single failure splits a connected part of the network"
+        : `Proposed ${plan.proposals.length} new links (${formatDistance(plan.totalDistance)}): bridges ` +
+            `${plan.bridgesBefore} → ${plan.bridgesAfter}, articulation points ` +
+            `${plan.articulationPointsBefore} → ${plan.articulationPointsAfter}`,
+    )
+  }
+
+  // Build every planned redundancy link into the topology
+  const addRedundancyLinks = () => {
+    if (!redundancyPlan) return
+    const { proposals } = redundancyPlan
+    editTopology(`Added ${proposals.length} redundancy links`, (prevGraph) =>
+      proposals.reduce(commitRecoveryLink, prevGraph),
+    )
+  }
+
+  // Decompose the network into blocks and 2-edge-connected components
+  const runDecomposition = () => {
+    const result = decomposeNetwork(graph)
+
+    setDecomposition(result)
+    showTrace(result.trace)
   }
 
   // Run BFS to find shortest path
   const runBFS = () => {
     if (!selectedNode || !targetNode) {
-      setAlgorithmResult(["Please select both source and target nodes"])
+      showMessage("Please select both source and target nodes")
       return
     }
 
-    // Reset previous results
-    setAlgorithmResult([])
-
-    const visited: Record<string, boolean> = {}
-    const queue: string[] = []
-    const prev: Record<string, string | null> = {}
-    const result: string[] = []
+    const { path: shortestPath, trace } = findShortestPath(graph, selectedNode, targetNode)
 
-    // Only consider active edges
-    const activeEdges = graph.edges.filter((edge) => edge.isActive)
+    setPath(shortestPath)
+    showTrace(trace)
+  }
 
-    // Build adjacency list
-    const adjList: Record<string, string[]> = {}
-    graph.nodes.forEach((node) => {
-      adjList[node.id] = []
-    })
+  // Run Dijkstra or A* to find the cheapest path under the selected metric
+  const runWeightedPath = () => {
+    if (!selectedNode || !targetNode) {
+      showMessage("Please select both source and target nodes")
+      return
+    }
 
-    activeEdges.forEach((edge) => {
-      adjList[edge.source].push(edge.target)
-      adjList[edge.target].push(edge.source)
+    const { path: cheapestPath, trace } = findWeightedPath(graph, selectedNode, targetNode, {
+      metric: weightMetric,
+      algorithm: weightedAlgorithm,
     })
 
-    // Initialize BFS
-    queue.push(selectedNode)
-    visited[selectedNode] = true
-    prev[selectedNode] = null
+    setPath(cheapestPath)
+    showTrace(trace)
+  }
 
-    result.push(`Starting BFS from ${getNodeLabel(selectedNode)}`)
+  // Find backup routes that share no links (or no sites) with each other, and say what blocks them if too few exist
+  const runDisjointPaths = () => {
+    if (!selectedNode || !targetNode) {
+      showMessage("Please select both source and target nodes")
+      return
+    }
 
-    // BFS traversal
-    while (queue.length > 0) {
-      const current = queue.shift()!
-      result.push(`Visiting ${getNodeLabel(current)}`)
+    const result = findDisjointPaths(graph, selectedNode, targetNode, { mode: disjointMode, k: disjointCount })
+    const kind = disjointMode === "edge" ? "link-disjoint" : "site-disjoint"
+    const blockers = [
+      ...result.cutLinks.map((idx) => {
+        const edge = graph.edges[idx]
+        return `${result.cutLinks.length === 1 ? "bridge " : ""}${getNodeLabel(edge.source)} – ${getNodeLabel(edge.target)}`
+      }),
+      ...result.cutSites.map((id) => `${result.cutSites.length === 1 ? "articulation point " : ""}${getNodeLabel(id)}`),
+    ]
 
-      if (current === targetNode) {
-        result.push(`Found target: ${getNodeLabel(targetNode)}`)
-        break
-      }
+    setPath([])
+    setDisjointPaths(result)
+    showMessage(
+      result.paths.length === 0
+        ? `${getNodeLabel(selectedNode)} and ${getNodeLabel(targetNode)} are not connected`
+        : result.paths.length < disjointCount
+          ? `Only ${result.paths.length} ${kind} ${result.paths.length === 1 ? "path exists" : "paths exist"}: ` +
+            `every further route has to pass ${blockers.join(", ")}`
+          : `Found ${result.paths.length} ${kind} paths`,
+    )
+  }
 
-      for (const neighbor of adjList[current]) {
-        if (!visited[neighbor]) {
-          queue.push(neighbor)
-          visited[neighbor] = true
-          prev[neighbor] = current
-          result.push(`Discovered ${getNodeLabel(neighbor)} from ${getNodeLabel(current)}`)
-        }
-      }
+  // Run Edmonds-Karp to find the bandwidth available between source and target and its bottleneck links
+  const runMaxFlow = () => {
+    if (!selectedNode || !targetNode) {
+      showMessage("Please select both source and target nodes")
+      return
     }
 
-    // Reconstruct path if target was found
-    if (visited[targetNode]) {
-      const shortestPath: string[] = []
-      let current: string | null = targetNode
+    const { maxFlow: flow, minCut, trace } = findMaxFlow(graph, selectedNode, targetNode)
 
-      while (current !== null) {
-        shortestPath.unshift(current)
-        current = prev[current]
-      }
+    setMaxFlow(flow)
+    setMinCutEdges(minCut)
+    showTrace(trace)
+  }
 
-      result.push(`Shortest path: ${shortestPath.map(getNodeLabel).join(" → ")}`)
-      setPath(shortestPath)
-    } else {
-      result.push(`No path exists from ${getNodeLabel(selectedNode)} to ${getNodeLabel(targetNode)}`)
-      setPath([])
-    }
+  // Sample random link failures to estimate how likely each site is to keep reaching a hub
+  const runReliability = () => {
+    const result = estimateReliability(graph, { samples: reliabilitySamples })
+    const atRisk = result.sites.filter((site) => site.probability < 0.9)
 
-    setAlgorithmResult(result)
+    setPath([])
+    setReliability(result)
+    showMessage(
+      `Sampled ${result.samples.toLocaleString()} failure states: ${atRisk.length} of ${result.sites.length} sites ` +
+        "reach a hub less than 90% of the time",
+    )
   }
 
-  // Find disconnected nodes and reconnect them to the nearest available node
-  const recoverNetwork = () => {
-    // Reset previous recovery edges
-    setRecoveryEdges([])
-    setAlgorithmResult([])
-
-    const result: string[] = []
-    result.push("Starting network recovery process...")
+  // Remove each link and site in turn to rank them by the damage their loss would do
+  const runCriticality = () => {
+    const result = rankCriticality(graph)
+    const disconnecting = result.elements.filter((element) => element.disconnected > 0)
 
-    // Only consider active edges
-    const activeEdges = graph.edges.filter((edge) => edge.isActive)
+    setPath([])
+    setCriticality(result)
+    setCriticalSelection(null)
+    showMessage(
+      `Removed ${result.elements.length} links and sites one at a time: ${disconnecting.length} of them cut off ` +
+        "at least one site from every hub",
+    )
+  }
 
-    // Build adjacency list
-    const adjList: Record<string, string[]> = {}
-    graph.nodes.forEach((node) => {
-      adjList[node.id] = []
-    })
+  // Play out link failures and repairs over time to measure how long each site is cut off
+  const runOutageSimulation = () => {
+    const result = simulateOutages(graph, { duration: outageHours, crews: repairCrews })
+    const worst = result.sites.reduce<(typeof result.sites)[number] | null>(
+      (lowest, site) => (!lowest || site.availability < lowest.availability ? site : lowest),
+      null,
+    )
 
-    activeEdges.forEach((edge) => {
-      adjList[edge.source].push(edge.target)
-      adjList[edge.target].push(edge.source)
-    })
+    setPath([])
+    setOutageSimulation(result)
+    setOutageTime(0)
+    showMessage(
+      `Simulated ${result.events.filter((event) => event.type === "fail").length} link failures over ` +
+        `${outageHours} hours with ${repairCrews} repair ${repairCrews === 1 ? "crew" : "crews"}: ` +
+        `${result.totalDowntime.toFixed(1)} site-hours of downtime` +
+        (worst ? `, lowest availability ${(worst.availability * 100).toFixed(2)}% at ${getNodeLabel(worst.node)}` : ""),
+    )
+  }
 
-    // Start from a hub node (assuming the first hub is the main source)
-    const sourceNode = graph.nodes.find((node) => node.type === "hub")?.id || graph.nodes[0].id
+  // Set a link's failure probability for the Monte Carlo analysis; empty falls back to the default
+  const setFailureProbability = (edgeIndex: number, value: string) => {
+    const edge = graph.edges[edgeIndex]
+    const probability = value === "" ? undefined : Math.max(0, Math.min(1, Number(value)))
+    if (Number.isNaN(probability)) return
 
-    // Run BFS to find all reachable nodes from the source
-    const visited: Record<string, boolean> = {}
-    const queue: string[] = []
+    recordHistory(`Set failure probability of ${getNodeLabel(edge.source)} – ${getNodeLabel(edge.target)}`, true)
+    setGraph((prevGraph) => ({
+      ...prevGraph,
+      edges: prevGraph.edges.map((e, idx) => (idx === edgeIndex ? { ...e, failureProbability: probability } : e)),
+    }))
+    setReliability(null)
+  }
 
-    queue.push(sourceNode)
-    visited[sourceNode] = true
+  // Find disconnected components and join them to the hub with the shortest set of new links
+  const recoverNetwork = (network: Graph = graph) => {
+    const { proposals, totalDistance, baseline, trace } = proposeRecovery(network)
+    if (proposals.length > 0 || recoveryEdges.length > 0) recordHistory(`Proposed ${proposals.length} recovery links`)
 
-    while (queue.length > 0) {
-      const current = queue.shift()!
+    setRecoveryEdges(
+      proposals.map((proposal) => ({
+        source: proposal.source,
+        target: proposal.target,
+        isActive: true,
+        isRecovery: true,
+      })),
+    )
+    setRecoveryStats(proposals.length > 0 ? { proposals, totalDistance, baseline } : null)
+    showTrace(trace)
+  }
 
-      for (const neighbor of adjList[current]) {
-        if (!visited[neighbor]) {
-          queue.push(neighbor)
-          visited[neighbor] = true
-        }
-      }
+  // Fail everything inside or crossing an area, report who was cut off and propose recovery links
+  const strikeArea = (area: DisasterArea) => {
+    const { graph: damaged, ...report } = applyAreaOutage(graph, area)
+    setAreaDraft(null)
+    if (report.failedSites.length === 0 && report.failedLinks.length === 0) {
+      showMessage("No working sites or links inside that area")
+      return
     }
 
-    // Find disconnected nodes
-    const disconnectedNodes = graph.nodes.filter((node) => !visited[node.id])
+    setGraph(damaged)
+    clearTopologyResults()
+    setAreaOutage({ area, ...report })
+    recoverNetwork(damaged)
+    recordHistory(`Area outage: ${report.failedSites.length} sites, ${report.failedLinks.length} links`)
+  }
+
+  // Helper to check whether a site is down
+  const isNodeFailed = (id: string): boolean => graph.nodes.some((n) => n.id === id && n.isFailed)
+
+  // Helper to get node label by id
+  const getNodeLabel = (id: string): string => {
+    const node = graph.nodes.find((n) => n.id === id)
+    return node ? node.label : id
+  }
+
+  // Helper to format a length, in kilometers when every site is geolocated
+  const formatDistance = (value: number): string =>
+    distanceUnit(graph) === "km" ? `${formatWeight(value)} km` : formatWeight(value)
+
+  // Reroute traffic with every topology change, in the same render, so failures, recoveries and removed links
+  // show up in the load straight away
+  const traffic = useMemo(
+    () => (showTraffic ? routeTraffic(graph, buildHubDemands(graph, demandMbps)) : null),
+    [graph, showTraffic, demandMbps],
+  )
 
-    if (disconnectedNodes.length === 0) {
-      result.push("All nodes are connected. No recovery needed.")
-      setAlgorithmResult(result)
+  const toggleTraffic = () => {
+    if (showTraffic) {
+      setShowTraffic(false)
       return
     }
 
-    result.push(
-      `Found ${disconnectedNodes.length} disconnected nodes: ${disconnectedNodes.map((n) => n.label).join(", ")}`,
+    const result = routeTraffic(graph, buildHubDemands(graph, demandMbps))
+    setShowTraffic(true)
+    showMessage(
+      `Routed ${result.totalDemand} Mbps to the nearest hubs: ${result.overloaded.length} overloaded links, ` +
+        `${formatWeight(result.unmetDemand)} Mbps unmet`,
     )
+  }
 
-    // For each disconnected node, find the closest connected node to connect to
-    const newRecoveryEdges: Edge[] = []
+  // People and households cut off from every hub right now, kept current as links and sites fail
+  const impact = measureOutageImpact(graph)
 
-    disconnectedNodes.forEach((disconnectedNode) => {
-      // Find all connected nodes
-      const connectedNodes = graph.nodes.filter((node) => visited[node.id])
+  // Record the state an undoable action produced
+  useEffect(() => {
+    const pending = pendingHistory.current
+    pendingHistory.current = null
+    if (!pending) return
+
+    const { state } = currentEntry(history)
+    if (state.graph === graph && state.mode === mode && state.recoveryEdges === recoveryEdges) return
+    setHistory(pushHistory(history, pending.label, { graph, mode, recoveryEdges }, pending.merge))
+  }, [history, graph, mode, recoveryEdges])
+
+  // Go back or forward to a recorded state
+  const restoreHistory = (next: History<HistorySnapshot>) => {
+    const { state } = currentEntry(next)
+    setHistory(next)
+    setGraph(state.graph)
+    setMode(state.mode)
+    setRecoveryEdges(state.recoveryEdges)
+    setBridges(state.graph.edges.filter((edge) => edge.isBridge))
+    setArticulationPoints(state.graph.nodes.filter((node) => node.isArticulationPoint))
+    setLinkStart(null)
+    setAreaOutage(null)
+    clearTopologyResults()
+  }
 
-      // Find the closest connected node (using Euclidean distance as a simple metric)
-      let closestNode = connectedNodes[0]
-      let minDistance = Number.MAX_VALUE
+  // Undo with Ctrl/Cmd+Z, redo with Ctrl/Cmd+Shift+Z or Ctrl+Y, except while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      if (e.target instanceof HTMLElement && e.target.closest("input, textarea, select")) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey && canUndo(history)) {
+        e.preventDefault()
+        restoreHistory(undo(history))
+      } else if (((key === "z" && e.shiftKey) || key === "y") && canRedo(history)) {
+        e.preventDefault()
+        restoreHistory(redo(history))
+      }
+    }
 
-      connectedNodes.forEach((connectedNode) => {
-        const dx = connectedNode.x - disconnectedNode.x
-        const dy = connectedNode.y - disconnectedNode.y
-        const distance = Math.sqrt(dx * dx + dy * dy)
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  })
+
+  // Switch mode as an undoable step
+  const changeMode = (nextMode: SimulatorMode) => {
+    if (nextMode === mode) return
+    recordHistory(`Switched to ${nextMode} mode`)
+    setMode(nextMode)
+    setLinkStart(null)
+    setAreaDraft(null)
+  }
 
-        if (distance < minDistance) {
-          minDistance = distance
-          closestNode = connectedNode
-        }
-      })
+  // Put the current view in the address bar and copy the link
+  const shareView = async () => {
+    const hash = encodeShareLink({ scenarioId, graph, source: selectedNode, target: targetNode, mode })
+    window.history.replaceState(null, "", `#${hash}`)
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      showMessage("Share link copied to the clipboard")
+    } catch {
+      showMessage("Share link is in the address bar; copy it from there")
+    }
+  }
 
-      // Create a recovery edge
-      const recoveryEdge: Edge = {
-        source: disconnectedNode.id,
-        target: closestNode.id,
-        isActive: true,
-        isRecovery: true,
-      }
+  // Restore a shared view from the URL on first load
+  useEffect(() => {
+    const { view, warnings } = decodeShareLink(window.location.hash)
+    if (view) {
+      recordHistory("Opened shared link")
+      setBaseGraph(view.baseGraph)
+      setScenarioId(view.scenarioId)
+      setGraph(view.graph)
+      setSelectedNode(view.source)
+      setTargetNode(view.target)
+      setMode(view.mode)
+    }
+    if (warnings.length > 0) setAlgorithmResult(["Some of the shared link could not be restored:", ...warnings])
+  }, [])
 
-      newRecoveryEdges.push(recoveryEdge)
-      result.push(`Reconnecting ${disconnectedNode.label} to ${closestNode.label}`)
-    })
+  // Advance the trace player while playing
+  useEffect(() => {
+    if (!isPlaying) return
 
-    setRecoveryEdges(newRecoveryEdges)
-    setAlgorithmResult(result)
-  }
+    const timer = window.setInterval(() => {
+      setPlaybackStep((step) => Math.min((step ?? 0) + 1, trace.length))
+    }, 800 / playbackSpeed)
 
-  // Helper to get node label by id
-  const getNodeLabel = (id: string): string => {
-    const node = graph.nodes.find((n) => n.id === id)
-    return node ? node.label : id
-  }
+    return () => window.clearInterval(timer)
+  }, [isPlaying, playbackSpeed, trace.length])
+
+  // Stop playing at the end of the trace
+  useEffect(() => {
+    if (playbackStep !== null && playbackStep >= trace.length) {
+      setIsPlaying(false)
+    }
+  }, [playbackStep, trace.length])
 
   // Draw the graph on canvas
   useEffect(() => {
@@ -421,6 +775,57 @@ export default function TelecomSimulator() {
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height)
 
+    // Shade the outage area, and outline the one being drawn
+    ;[areaOutage?.area, areaDraft].forEach((area, idx) => {
+      if (!area) return
+      const isDraft = idx === 1
+
+      ctx.beginPath()
+      if (area.kind === "circle") {
+        ctx.arc(area.center.x, area.center.y, area.radius, 0, Math.PI * 2)
+      } else {
+        area.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)))
+        if (!isDraft) ctx.closePath()
+      }
+      ctx.fillStyle = "rgba(220, 38, 38, 0.12)"
+      if (!isDraft || area.kind === "circle") ctx.fill()
+      ctx.strokeStyle = "#dc2626"
+      ctx.lineWidth = 1.5
+      ctx.setLineDash(isDraft ? [6, 4] : [])
+      ctx.stroke()
+      ctx.setLineDash([])
+
+      if (isDraft && area.kind === "polygon") {
+        area.points.forEach((point) => {
+          ctx.beginPath()
+          ctx.arc(point.x, point.y, 3, 0, Math.PI * 2)
+          ctx.fillStyle = "#dc2626"
+          ctx.fill()
+        })
+      }
+    })
+    ctx.lineWidth = 2
+
+    // Shade each block's links underneath the regular edges
+    if (decomposition && decompositionView === "blocks") {
+      decomposition.blocks.forEach((block, idx) => {
+        block.edges.forEach((edgeIndex) => {
+          const edge = graph.edges[edgeIndex]
+          const sourceNode = graph.nodes.find((n) => n.id === edge?.source)
+          const targetNode = graph.nodes.find((n) => n.id === edge?.target)
+          if (!sourceNode || !targetNode) return
+
+          ctx.beginPath()
+          ctx.moveTo(sourceNode.x, sourceNode.y)
+          ctx.lineTo(targetNode.x, targetNode.y)
+          ctx.strokeStyle = `${componentColors[idx % componentColors.length]}55`
+          ctx.lineWidth = 14
+          ctx.stroke()
+        })
+      })
+      ctx.lineWidth = 2
+    }
+
     // Draw edges
     graph.edges.forEach((edge) => {
       const sourceNode = graph.nodes.find((n) => n.id === edge.source)
@@ -435,6 +840,13 @@ export default function TelecomSimulator() {
         if (!edge.isActive) {
           ctx.strokeStyle = "#ff0000"
           ctx.setLineDash([5, 3])
+        } else if (sourceNode.isFailed || targetNode.isFailed) {
+          ctx.strokeStyle = "#fca5a5"
+          ctx.setLineDash([5, 3])
+        } else if (minCutEdges.some((cut) => connects(cut, edge.source, edge.target))) {
+          ctx.strokeStyle = "#e11d48"
+          ctx.lineWidth = 5
+          ctx.setLineDash([])
         } else if (edge.isBridge) {
           ctx.strokeStyle = "#ff9900"
           ctx.lineWidth = 3
@@ -447,6 +859,14 @@ export default function TelecomSimulator() {
           ctx.strokeStyle = "#00cc00"
           ctx.lineWidth = 3
           ctx.setLineDash([])
+        } else if (edge.isRecovery) {
+          ctx.strokeStyle = "#8b5cf6"
+          ctx.lineWidth = 3
+          ctx.setLineDash([])
+        } else if (edge.isSubmarine) {
+          ctx.strokeStyle = "#0284c7"
+          ctx.lineWidth = 2
+          ctx.setLineDash([])
         } else {
           ctx.strokeStyle = "#666666"
           ctx.lineWidth = 2
@@ -480,7 +900,164 @@ export default function TelecomSimulator() {
       }
     })
 
-    // Draw nodes
+    // Color each disjoint path, and ring the links and sites that rule out another one
+    disjointPaths?.links.forEach((pathLinks, idx) => {
+      pathLinks.forEach((edgeIndex) => {
+        const sourceNode = graph.nodes.find((n) => n.id === graph.edges[edgeIndex]?.source)
+        const targetNode = graph.nodes.find((n) => n.id === graph.edges[edgeIndex]?.target)
+        if (!sourceNode || !targetNode) return
+
+        ctx.beginPath()
+        ctx.moveTo(sourceNode.x, sourceNode.y)
+        ctx.lineTo(targetNode.x, targetNode.y)
+        ctx.strokeStyle = disjointColors[idx % disjointColors.length]
+        ctx.lineWidth = 4
+        ctx.stroke()
+      })
+    })
+    disjointPaths?.cutLinks.forEach((edgeIndex) => {
+      const sourceNode = graph.nodes.find((n) => n.id === graph.edges[edgeIndex]?.source)
+      const targetNode = graph.nodes.find((n) => n.id === graph.edges[edgeIndex]?.target)
+      if (!sourceNode || !targetNode) return
+
+      ctx.beginPath()
+      ctx.arc((sourceNode.x + targetNode.x) / 2, (sourceNode.y + targetNode.y) / 2, 10, 0, Math.PI * 2)
+      ctx.strokeStyle = "#e11d48"
+      ctx.lineWidth = 2
+      ctx.stroke()
+    })
+    disjointPaths?.cutSites.forEach((id) => {
+      const node = graph.nodes.find((n) => n.id === id)
+      if (!node) return
+
+      ctx.beginPath()
+      ctx.arc(node.x, node.y, 20, 0, Math.PI * 2)
+      ctx.strokeStyle = "#e11d48"
+      ctx.lineWidth = 2
+      ctx.stroke()
+    })
+    ctx.lineWidth = 2
+
+    // Heatmap of link load under the traffic demands, thickest where links are overloaded
+    traffic?.utilization.forEach((utilization, edgeIndex) => {
+      const edge = graph.edges[edgeIndex]
+      const sourceNode = graph.nodes.find((n) => n.id === edge?.source)
+      const targetNode = graph.nodes.find((n) => n.id === edge?.target)
+      if (!sourceNode || !targetNode || traffic.load[edgeIndex] === 0) return
+
+      ctx.beginPath()
+      ctx.moveTo(sourceNode.x, sourceNode.y)
+      ctx.lineTo(targetNode.x, targetNode.y)
+      ctx.strokeStyle = utilization > 1 ? "#7f1d1d" : utilizationColor(utilization)
+      ctx.lineWidth = utilization > 1 ? 7 : 3 + utilization * 3
+      ctx.stroke()
+
+      ctx.fillStyle = "#0f172a"
+      ctx.font = "10px Arial"
+      ctx.textAlign = "center"
+      ctx.fillText(
+        `${Math.round(utilization * 100)}%`,
+        (sourceNode.x + targetNode.x) / 2,
+        (sourceNode.y + targetNode.y) / 2 - 6,
+      )
+    })
+    ctx.lineWidth = 2
+
+    // Replay the outage simulation: links down at the chosen moment, and the sites they cut off
+    if (outageSimulation) {
+      const down = new Set(linksDownAt(outageSimulation, outageTime))
+      const reachable = findHubConnected({
+        ...graph,
+        edges: graph.edges.map((edge, idx) => (down.has(idx) ? { ...edge, isActive: false } : edge)),
+      })
+
+      down.forEach((edgeIndex) => {
+        const sourceNode = graph.nodes.find((n) => n.id === graph.edges[edgeIndex]?.source)
+        const targetNode = graph.nodes.find((n) => n.id === graph.edges[edgeIndex]?.target)
+        if (!sourceNode || !targetNode) return
+
+        ctx.beginPath()
+        ctx.moveTo(sourceNode.x, sourceNode.y)
+        ctx.lineTo(targetNode.x, targetNode.y)
+        ctx.strokeStyle = "#dc2626"
+        ctx.lineWidth = 4
+        ctx.setLineDash([6, 4])
+        ctx.stroke()
+        ctx.setLineDash([])
+      })
+      outageSimulation.sites.forEach((site) => {
+        const node = graph.nodes.find((n) => n.id === site.node)
+        if (!node || reachable.has(site.node)) return
+
+        ctx.beginPath()
+        ctx.arc(node.x, node.y, 20, 0, Math.PI * 2)
+        ctx.strokeStyle = "#dc2626"
+        ctx.lineWidth = 2
+        ctx.stroke()
+      })
+      ctx.lineWidth = 2
+    }
+
+    // Highlight the link or site picked in the Criticality tab
+    if (criticalSelection?.kind === "link") {
+      const edge = graph.edges[criticalSelection.edge]
+      const sourceNode = graph.nodes.find((n) => n.id === edge?.source)
+      const targetNode = graph.nodes.find((n) => n.id === edge?.target)
+      if (sourceNode && targetNode) {
+        ctx.beginPath()
+        ctx.moveTo(sourceNode.x, sourceNode.y)
+        ctx.lineTo(targetNode.x, targetNode.y)
+        ctx.strokeStyle = "#facc1599"
+        ctx.lineWidth = 12
+        ctx.stroke()
+        ctx.lineWidth = 2
+      }
+    }
+
+    // Preview planned redundancy links
+    redundancyPlan?.proposals.forEach((proposal) => {
+      const sourceNode = graph.nodes.find((n) => n.id === proposal.source)
+      const targetNode = graph.nodes.find((n) => n.id === proposal.target)
+      if (!sourceNode || !targetNode) return
+
+      ctx.beginPath()
+      ctx.moveTo(sourceNode.x, sourceNode.y)
+      ctx.lineTo(targetNode.x, targetNode.y)
+      ctx.strokeStyle = "#0d9488"
+      ctx.lineWidth = 2
+      ctx.setLineDash([4, 4])
+      ctx.stroke()
+      ctx.setLineDash([])
+    })
+
+    // Shade each connected component found by the last DFS, or each resilient island when decomposed
+    const shadedGroups = decomposition
+      ? decompositionView === "blocks"
+        ? decomposition.blocks.map((block) => block.nodes)
+        : decomposition.twoEdgeComponents
+      : components
+    shadedGroups.forEach((component, idx) => {
+      ctx.fillStyle = `${componentColors[idx % componentColors.length]}33`
+      component.forEach((id) => {
+        const node = graph.nodes.find((n) => n.id === id)
+        if (!node) return
+        ctx.beginPath()
+        ctx.arc(node.x, node.y, 22, 0, Math.PI * 2)
+        ctx.fill()
+      })
+    })
+
+    const criticalNode =
+      criticalSelection?.kind === "site" ? graph.nodes.find((n) => n.id === criticalSelection.node) : undefined
+    if (criticalNode) {
+      ctx.beginPath()
+      ctx.arc(criticalNode.x, criticalNode.y, 24, 0, Math.PI * 2)
+      ctx.fillStyle = "#facc1599"
+      ctx.fill()
+    }
+
+    // Draw nodes, shading cities and barangays by reliability after a Monte Carlo run
+    const siteReliability = new Map(reliability?.sites.map((site) => [site.node, site.probability]))
     graph.nodes.forEach((node) => {
       ctx.beginPath()
 
@@ -492,12 +1069,16 @@ export default function TelecomSimulator() {
       }
 
       // Style based on node properties
-      if (node.id === selectedNode) {
+      if (node.isFailed) {
+        ctx.fillStyle = "#fecaca"
+      } else if (node.id === selectedNode) {
         ctx.fillStyle = "#3b82f6"
       } else if (node.id === targetNode) {
         ctx.fillStyle = "#10b981"
       } else if (node.isArticulationPoint) {
         ctx.fillStyle = "#f97316"
+      } else if (siteReliability.has(node.id)) {
+        ctx.fillStyle = reliabilityColor(siteReliability.get(node.id)!)
       } else if (node.type === "hub") {
         ctx.fillStyle = "#8b5cf6"
       } else if (node.type === "city") {
@@ -508,18 +1089,98 @@ export default function TelecomSimulator() {
 
       ctx.fill()
 
+      // Cross out failed sites
+      if (node.isFailed) {
+        ctx.beginPath()
+        ctx.moveTo(node.x - 8, node.y - 8)
+        ctx.lineTo(node.x + 8, node.y + 8)
+        ctx.moveTo(node.x + 8, node.y - 8)
+        ctx.lineTo(node.x - 8, node.y + 8)
+        ctx.strokeStyle = "#dc2626"
+        ctx.lineWidth = 2
+        ctx.stroke()
+      }
+
       // Draw node label
       ctx.fillStyle = "#000000"
       ctx.font = "12px Arial"
       ctx.textAlign = "center"
       ctx.fillText(node.label, node.x, node.y + 25)
     })
-  }, [graph, selectedNode, targetNode, path, recoveryEdges])
 
-  // Handle canvas click to select nodes
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Outline the node being edited or the start of a link being drawn
+    if (mode === "edit") {
+      graph.nodes
+        .filter((node) => node.id === editingNodeId || node.id === linkStart)
+        .forEach((node) => {
+          ctx.beginPath()
+          ctx.arc(node.x, node.y, 20, 0, Math.PI * 2)
+          ctx.strokeStyle = node.id === linkStart ? "#8b5cf6" : "#0f172a"
+          ctx.lineWidth = 2
+          ctx.setLineDash([3, 3])
+          ctx.stroke()
+          ctx.setLineDash([])
+        })
+    }
+
+    // Highlight the algorithm state at the current playback step
+    if (playbackStep !== null) {
+      const state = replayTrace(trace, playbackStep)
+
+      graph.nodes.forEach((node) => {
+        const isCurrent = node.id === state.current
+        const isFrontier = state.frontier.includes(node.id)
+
+        if (isCurrent || isFrontier) {
+          ctx.beginPath()
+          ctx.arc(node.x, node.y, 20, 0, Math.PI * 2)
+          ctx.strokeStyle = isCurrent ? "#eab308" : "#0ea5e9"
+          ctx.lineWidth = isCurrent ? 4 : 2
+          ctx.setLineDash(isCurrent ? [] : [4, 3])
+          ctx.stroke()
+          ctx.setLineDash([])
+          ctx.lineWidth = 2
+        }
+
+        // Discovery time / low-link value for DFS
+        if (state.discovery[node.id] !== undefined) {
+          ctx.fillStyle = "#0f172a"
+          ctx.font = "bold 11px Arial"
+          ctx.textAlign = "center"
+          ctx.fillText(`${state.discovery[node.id]}/${state.low[node.id]}`, node.x, node.y - 22)
+        }
+      })
+    }
+  }, [
+    graph,
+    selectedNode,
+    targetNode,
+    path,
+    recoveryEdges,
+    minCutEdges,
+    components,
+    decomposition,
+    decompositionView,
+    reliability,
+    criticalSelection,
+    disjointPaths,
+    redundancyPlan,
+    outageSimulation,
+    outageTime,
+    traffic,
+    areaDraft,
+    areaOutage,
+    trace,
+    playbackStep,
+    mode,
+    editingNodeId,
+    linkStart,
+  ])
+
+  // Convert a mouse or pointer position to canvas coordinates
+  const getCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current
-    if (!canvas) return
+    if (!canvas) return null
 
     const rect = canvas.getBoundingClientRect()
 
@@ -528,20 +1189,84 @@ export default function TelecomSimulator() {
     const scaleY = canvas.height / rect.height
 
     // Adjust coordinates based on scaling and offset
-    const x = (e.clientX - rect.left) * scaleX
-    const y = (e.clientY - rect.top) * scaleY
+    return {
+      x: (e.clientX - rect.left) * scaleX,
+      y: (e.clientY - rect.top) * scaleY,
+    }
+  }
 
+  // Find the node under a canvas point
+  const findNodeAt = (x: number, y: number) => {
     // Increase hit detection radius for better touch/click accuracy
     const hitRadius = 20 // Increased from previous implicit radius
 
-    // Find clicked node with improved hit detection
-    const clickedNode = graph.nodes.find((node) => {
+    return graph.nodes.find((node) => {
       const dx = node.x - x
       const dy = node.y - y
       return dx * dx + dy * dy <= hitRadius * hitRadius
     })
+  }
+
+  // Apply the active edit tool at a clicked point
+  const handleEditClick = (x: number, y: number, clickedNode: Node | undefined) => {
+    if (editTool === "add-node" && !clickedNode) {
+      const id = nextNodeId(graph)
+      editTopology(`Added ${newNodeType} site`, (prevGraph) =>
+        addNode(prevGraph, { type: newNodeType, x: Math.round(x), y: Math.round(y) }),
+      )
+      setEditingNodeId(id)
+    } else if (editTool === "add-link" && clickedNode) {
+      if (!linkStart) {
+        setLinkStart(clickedNode.id)
+      } else {
+        if (linkStart !== clickedNode.id) {
+          editTopology(`Added link ${getNodeLabel(linkStart)} – ${clickedNode.label}`, (prevGraph) =>
+            addEdge(prevGraph, linkStart, clickedNode.id),
+          )
+        }
+        setLinkStart(null)
+      }
+    } else if (editTool === "delete") {
+      if (clickedNode) {
+        deleteNode(clickedNode.id)
+      } else {
+        const edgeIndex = findEdgeAt(graph, x, y, 6)
+        if (edgeIndex !== null) {
+          const edge = graph.edges[edgeIndex]
+          editTopology(`Deleted link ${getNodeLabel(edge.source)} – ${getNodeLabel(edge.target)}`, (prevGraph) =>
+            removeEdge(prevGraph, edgeIndex),
+          )
+        }
+      }
+    } else if (editTool === "move") {
+      setEditingNodeId(clickedNode ? clickedNode.id : null)
+    }
+  }
+
+  // Handle canvas click to select nodes, or shift-click in failure mode to fail a site
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = getCanvasPoint(e)
+    if (!point) return
+
+    const clickedNode = findNodeAt(point.x, point.y)
+
+    // Circles are drawn by dragging; polygons close by clicking near their first corner
+    if (mode === "failure" && failureTool === "circle") return
+    if (mode === "failure" && failureTool === "polygon") {
+      const points = areaDraft?.kind === "polygon" ? areaDraft.points : []
+      if (points.length >= 3 && Math.hypot(point.x - points[0].x, point.y - points[0].y) <= 10) {
+        strikeArea({ kind: "polygon", points })
+      } else {
+        setAreaDraft({ kind: "polygon", points: [...points, point] })
+      }
+      return
+    }
 
-    if (clickedNode) {
+    if (mode === "edit") {
+      handleEditClick(point.x, point.y, clickedNode)
+    } else if (clickedNode && mode === "failure" && e.shiftKey) {
+      toggleNode(clickedNode.id)
+    } else if (clickedNode) {
       if (!selectedNode) {
         setSelectedNode(clickedNode.id)
       } else if (!targetNode) {
@@ -552,10 +1277,81 @@ export default function TelecomSimulator() {
         setSelectedNode(clickedNode.id)
         setTargetNode(null)
         setPath([])
+        setDisjointPaths(null)
+        setMaxFlow(null)
+        setMinCutEdges([])
       }
     }
   }
 
+  // Drag nodes to reposition them with the move tool
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (mode === "failure" && failureTool === "circle") {
+      const center = getCanvasPoint(e)
+      if (!center) return
+      drawingCircle.current = true
+      setAreaDraft({ kind: "circle", center, radius: 0 })
+      e.currentTarget.setPointerCapture(e.pointerId)
+      return
+    }
+    if (mode !== "edit" || editTool !== "move") return
+    const point = getCanvasPoint(e)
+    const node = point && findNodeAt(point.x, point.y)
+    if (!node) return
+
+    draggingNodeId.current = node.id
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (drawingCircle.current) {
+      const point = getCanvasPoint(e)
+      if (!point) return
+      setAreaDraft((draft) =>
+        draft?.kind === "circle"
+          ? { ...draft, radius: Math.hypot(point.x - draft.center.x, point.y - draft.center.y) }
+          : draft,
+      )
+      return
+    }
+
+    const nodeId = draggingNodeId.current
+    const point = nodeId && getCanvasPoint(e)
+    if (!nodeId || !point) return
+
+    const canvas = canvasRef.current!
+    setGraph((prevGraph) =>
+      moveNode(prevGraph, nodeId, {
+        x: Math.round(Math.max(0, Math.min(canvas.width, point.x))),
+        y: Math.round(Math.max(0, Math.min(canvas.height, point.y))),
+      }),
+    )
+  }
+
+  const handlePointerUp = () => {
+    if (drawingCircle.current) {
+      drawingCircle.current = false
+      // Ignore clicks that barely moved
+      if (areaDraft?.kind === "circle" && areaDraft.radius >= 5) strikeArea(areaDraft)
+      else setAreaDraft(null)
+      return
+    }
+
+    const nodeId = draggingNodeId.current
+    if (!nodeId) return
+    draggingNodeId.current = null
+
+    // A click without dragging leaves nothing to undo; a drag already updated the graph, so record it directly
+    const before = currentEntry(history).state.graph.nodes.find((node) => node.id === nodeId)
+    const after = graph.nodes.find((node) => node.id === nodeId)
+    if (before && after && (before.x !== after.x || before.y !== after.y)) {
+      setHistory(pushHistory(history, `Moved ${after.label}`, { graph, mode, recoveryEdges }))
+      setScenarioId(null)
+    }
+    // Distances changed, so weighted results no longer apply
+    clearTopologyResults()
+  }
+
   useEffect(() => {
     const handleResize = () => {
       if (canvasRef.current) {
@@ -584,121 +1380,514 @@ export default function TelecomSimulator() {
             <div>
               <h2 className="text-lg font-semibold">Network Visualization</h2>
               <p className="text-sm text-gray-500">
-                {mode === "normal" ? "View network topology" : "Simulate infrastructure failures"}
+                {mode === "normal"
+                  ? "View network topology"
+                  : mode === "failure"
+                    ? "Simulate infrastructure failures"
+                    : "Edit the network topology"}
               </p>
             </div>
             <div className="flex gap-2">
-              <Button variant={mode === "normal" ? "default" : "outline"} size="sm" onClick={() => setMode("normal")}>
+              <Button
+                variant={mode === "normal" ? "default" : "outline"}
+                size="sm"
+                onClick={() => changeMode("normal")}
+              >
                 Normal
               </Button>
               <Button
                 variant={mode === "failure" ? "destructive" : "outline"}
                 size="sm"
-                onClick={() => setMode("failure")}
+                onClick={() => changeMode("failure")}
               >
                 Failure Mode
               </Button>
+              <Button variant={mode === "edit" ? "secondary" : "outline"} size="sm" onClick={() => changeMode("edit")}>
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
               <Button variant="outline" size="sm" onClick={resetSimulation}>
                 <RefreshCw className="h-4 w-4 mr-1" />
                 Reset
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                title="Undo (Ctrl+Z)"
+                disabled={!canUndo(history)}
+                onClick={() => restoreHistory(undo(history))}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                title="Redo (Ctrl+Shift+Z)"
+                disabled={!canRedo(history)}
+                onClick={() => restoreHistory(redo(history))}
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={shareView}>
+                <Share2 className="h-4 w-4 mr-1" />
+                Share
+              </Button>
+            </div>
+          </div>
+
+          <div className="relative">
+            <canvas
+              ref={canvasRef}
+              width={600}
+              height={450}
+              onClick={handleCanvasClick}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className={`w-full h-auto touch-none ${
+                mode === "edit" && editTool === "add-node" ? "cursor-crosshair" : "cursor-pointer"
+              }`}
+              style={{ imageRendering: "crisp-edges" }}
+            />
+
+            <div className="absolute top-2 right-2 bg-white/90 p-2 rounded-lg shadow-sm">
+              {bridges.length > 0 && (
+                <div className="text-xs flex items-center mb-1">
+                  <div className="w-3 h-1 bg-[#ff9900] mr-1"></div>
+                  <span>Bridge</span>
+                </div>
+              )}
+              {articulationPoints.length > 0 && (
+                <div className="text-xs flex items-center mb-1">
+                  <div className="w-3 h-3 rounded-full bg-[#f97316] mr-1"></div>
+                  <span>Articulation Point</span>
+                </div>
+              )}
+              {path.length > 0 && (
+                <div className="text-xs flex items-center mb-1">
+                  <div className="w-3 h-1 bg-[#00cc00] mr-1"></div>
+                  <span>Shortest Path</span>
+                </div>
+              )}
+              {minCutEdges.length > 0 && (
+                <div className="text-xs flex items-center mb-1">
+                  <div className="w-3 h-1 bg-[#e11d48] mr-1"></div>
+                  <span>Bottleneck (Min-Cut)</span>
+                </div>
+              )}
+              {recoveryEdges.length > 0 && (
+                <div className="text-xs flex items-center mb-1">
+                  <div className="w-3 h-1 bg-[#8b5cf6] mr-1 border-t border-dashed"></div>
+                  <span>Proposed Recovery</span>
+                </div>
+              )}
+              {redundancyPlan && redundancyPlan.proposals.length > 0 && (
+                <div className="text-xs flex items-center mb-1">
+                  <div className="w-3 h-1 bg-[#0d9488] mr-1 border-t border-dashed"></div>
+                  <span>Planned Redundancy</span>
+                </div>
+              )}
+              {graph.edges.some((edge) => edge.isRecovery) && (
+                <div className="text-xs flex items-center mb-1">
+                  <div className="w-3 h-1 bg-[#8b5cf6] mr-1"></div>
+                  <span>Recovery Link</span>
+                </div>
+              )}
+              <div className="text-xs flex items-center mb-1">
+                <div className="w-3 h-3 rounded-full bg-[#8b5cf6] mr-1"></div>
+                <span>Hub</span>
+              </div>
+              <div className="text-xs flex items-center mb-1">
+                <div className="w-3 h-3 rounded-full bg-[#6b7280] mr-1"></div>
+                <span>City</span>
+              </div>
+              <div className="text-xs flex items-center">
+                <div className="w-3 h-3 rounded-full bg-[#94a3b8] mr-1"></div>
+                <span>Barangay</span>
+              </div>
+              {graph.nodes.some((node) => node.isFailed) && (
+                <div className="text-xs flex items-center mt-1">
+                  <div className="w-3 h-3 rounded-full bg-[#fecaca] border border-[#dc2626] mr-1"></div>
+                  <span>Failed Site</span>
+                </div>
+              )}
+              {traffic && (
+                <div className="text-xs mt-1">
+                  <div className="h-2 w-full rounded bg-gradient-to-r from-[hsl(120,80%,42%)] via-[hsl(60,80%,42%)] to-[hsl(0,80%,42%)]"></div>
+                  <div className="flex justify-between">
+                    <span>0%</span>
+                    <span>Link load</span>
+                    <span>100%+</span>
+                  </div>
+                </div>
+              )}
+              {reliability && (
+                <div className="text-xs mt-1">
+                  <div className="h-2 w-full rounded bg-gradient-to-r from-[hsl(0,70%,45%)] via-[hsl(60,70%,45%)] to-[hsl(120,70%,45%)]"></div>
+                  <div className="flex justify-between">
+                    <span>0%</span>
+                    <span>Reaches hub</span>
+                    <span>100%</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {trace.length > 0 && (
+            <AlgorithmPlayer
+              step={playbackStep ?? trace.length}
+              total={trace.length}
+              isPlaying={isPlaying}
+              speed={playbackSpeed}
+              onStepChange={(step) => setPlaybackStep(Math.max(0, Math.min(step, trace.length)))}
+              onPlayingChange={setIsPlaying}
+              onSpeedChange={setPlaybackSpeed}
+            />
+          )}
+
+          {mode === "failure" && (
+            <div className="p-4 bg-red-50 border-t border-red-200">
+              <h3 className="text-sm font-medium flex items-center">
+                <AlertCircle className="h-4 w-4 mr-1 text-red-500" />
+                Failure Simulation Mode
+              </h3>
+              <p className="text-xs text-gray-600 mt-1">
+                Click on the tables below to toggle infrastructure failures and test network resilience. Shift-click a
+                site on the map to fail it directly.
+              </p>
+
+              <div className="flex gap-1 mt-2">
+                {(
+                  [
+                    ["toggle", "Toggle Sites"],
+                    ["circle", "Circle Area"],
+                    ["polygon", "Polygon Area"],
+                  ] as const
+                ).map(([tool, label]) => (
+                  <Button
+                    key={tool}
+                    variant={failureTool === tool ? "destructive" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => {
+                      setFailureTool(tool)
+                      setAreaDraft(null)
+                    }}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {failureTool === "circle" && (
+                <p className="text-xs text-gray-600 mt-1">Drag on the map to draw the disaster area</p>
+              )}
+              {failureTool === "polygon" && (
+                <div className="flex items-center gap-2 mt-1">
+                  <p className="text-xs text-gray-600 flex-1">
+                    Click to add corners; click the first corner again or Finish to strike the area
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    disabled={areaDraft?.kind !== "polygon" || areaDraft.points.length < 3}
+                    onClick={() => areaDraft && strikeArea(areaDraft)}
+                  >
+                    Finish
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setAreaDraft(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+
+              {areaOutage && (
+                <div className="mt-2 p-2 bg-white border border-red-200 rounded text-xs">
+                  <p className="font-medium text-red-700">
+                    Area outage: {areaOutage.failedSites.length} sites and {areaOutage.failedLinks.length} links down
+                  </p>
+                  <p className="mt-1">
+                    {areaOutage.isolatedSites.length > 0
+                      ? `${areaOutage.isolatedSites.length} more sites lost their connection to a hub: ${areaOutage.isolatedSites
+                          .map(getNodeLabel)
+                          .join(", ")}`
+                      : "No other site lost its connection to a hub"}
+                  </p>
+                </div>
+              )}
+
+              <div className="mt-2 max-h-32 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="p-1 text-left">Connection</th>
+                      <th className="p-1 text-center">Status</th>
+                      <th className="p-1 text-center" title="Failure probability for the Monte Carlo analysis">
+                        P(fail)
+                      </th>
+                      <th className="p-1 text-center">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {graph.edges.map((edge, idx) => (
+                      <tr key={idx} className="border-t border-gray-200">
+                        <td className="p-1">
+                          {getNodeLabel(edge.source)} → {getNodeLabel(edge.target)}
+                          {edge.isRecovery && (
+                            <Badge variant="outline" className="ml-1 bg-violet-50 text-violet-700 border-violet-200">
+                              Recovery
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="p-1 text-center">
+                          {!edge.isActive ? (
+                            <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                              Failed
+                            </Badge>
+                          ) : isNodeFailed(edge.source) || isNodeFailed(edge.target) ? (
+                            <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                              Site Down
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                              Active
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="p-1 text-center">
+                          <input
+                            type="number"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            className="w-14 border rounded px-1 text-xs"
+                            placeholder={String(DEFAULT_FAILURE_PROBABILITY)}
+                            value={edge.failureProbability ?? ""}
+                            onChange={(e) => setFailureProbability(idx, e.target.value)}
+                          />
+                        </td>
+                        <td className="p-1 text-center">
+                          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => toggleEdge(idx)}>
+                            Toggle
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="mt-2 max-h-32 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="p-1 text-left">Site</th>
+                      <th className="p-1 text-center">Status</th>
+                      <th className="p-1 text-center">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {graph.nodes.map((node) => (
+                      <tr key={node.id} className="border-t border-gray-200">
+                        <td className="p-1">
+                          {node.label} <span className="text-gray-400 capitalize">({node.type})</span>
+                        </td>
+                        <td className="p-1 text-center">
+                          {node.isFailed ? (
+                            <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                              Failed
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                              Active
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="p-1 text-center">
+                          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => toggleNode(node.id)}>
+                            Toggle
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             </div>
-          </div>
+          )}
 
-          <div className="relative">
-            <canvas
-              ref={canvasRef}
-              width={600}
-              height={450}
-              onClick={handleCanvasClick}
-              className="w-full h-auto cursor-pointer touch-none"
-              style={{ imageRendering: "crisp-edges" }}
-            />
+          {mode === "edit" && (
+            <div className="p-4 bg-slate-50 border-t border-slate-200">
+              <h3 className="text-sm font-medium flex items-center">
+                <Pencil className="h-4 w-4 mr-1 text-slate-500" />
+                Topology Editor
+              </h3>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {(
+                  [
+                    ["move", "Select / Move"],
+                    ["add-node", "Add Site"],
+                    ["add-link", "Add Link"],
+                    ["delete", "Delete"],
+                  ] as const
+                ).map(([tool, label]) => (
+                  <Button
+                    key={tool}
+                    variant={editTool === tool ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => {
+                      setEditTool(tool)
+                      setLinkStart(null)
+                    }}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-600 mt-2">
+                {editTool === "move" && "Drag sites to reposition them, or click one to rename it"}
+                {editTool === "add-node" && "Click an empty spot on the map to place a new site"}
+                {editTool === "add-link" &&
+                  (linkStart
+                    ? `Click a second site to link it to ${getNodeLabel(linkStart)}`
+                    : "Click two sites to connect them")}
+                {editTool === "delete" && "Click a site or link to delete it"}
+              </p>
 
-            <div className="absolute top-2 right-2 bg-white/90 p-2 rounded-lg shadow-sm">
-              {bridges.length > 0 && (
-                <div className="text-xs flex items-center mb-1">
-                  <div className="w-3 h-1 bg-[#ff9900] mr-1"></div>
-                  <span>Bridge</span>
-                </div>
-              )}
-              {articulationPoints.length > 0 && (
-                <div className="text-xs flex items-center mb-1">
-                  <div className="w-3 h-3 rounded-full bg-[#f97316] mr-1"></div>
-                  <span>Articulation Point</span>
-                </div>
-              )}
-              {path.length > 0 && (
-                <div className="text-xs flex items-center mb-1">
-                  <div className="w-3 h-1 bg-[#00cc00] mr-1"></div>
-                  <span>Shortest Path</span>
+              {editTool === "add-node" && (
+                <div className="flex gap-1 mt-2">
+                  {(["hub", "city", "barangay"] as const).map((type) => (
+                    <Button
+                      key={type}
+                      variant={newNodeType === type ? "secondary" : "outline"}
+                      size="sm"
+                      className="h-7 text-xs capitalize"
+                      onClick={() => setNewNodeType(type)}
+                    >
+                      {type}
+                    </Button>
+                  ))}
                 </div>
               )}
-              {recoveryEdges.length > 0 && (
-                <div className="text-xs flex items-center mb-1">
-                  <div className="w-3 h-1 bg-[#8b5cf6] mr-1 border-t border-dashed"></div>
-                  <span>Recovery Connection</span>
+
+              {editingNodeId && graph.nodes.some((node) => node.id === editingNodeId) && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                  <label htmlFor="node-label">Label</label>
+                  <input
+                    id="node-label"
+                    className="border rounded px-2 py-1 text-xs flex-1 min-w-32"
+                    value={graph.nodes.find((node) => node.id === editingNodeId)!.label}
+                    onChange={(e) => {
+                      recordHistory(`Renamed site ${editingNodeId}`, true)
+                      setGraph((prevGraph) => updateNode(prevGraph, editingNodeId, { label: e.target.value }))
+                      setScenarioId(null)
+                    }}
+                  />
+                  {(["hub", "city", "barangay"] as const).map((type) => (
+                    <Button
+                      key={type}
+                      variant={
+                        graph.nodes.find((node) => node.id === editingNodeId)!.type === type ? "secondary" : "outline"
+                      }
+                      size="sm"
+                      className="h-7 text-xs capitalize"
+                      onClick={() =>
+                        editTopology(`Changed ${getNodeLabel(editingNodeId)} to ${type}`, (prevGraph) =>
+                          updateNode(prevGraph, editingNodeId, { type }),
+                        )
+                      }
+                    >
+                      {type}
+                    </Button>
+                  ))}
+                  {(["population", "households"] as const).map((key) => (
+                    <label key={key} className="flex items-center gap-1 capitalize">
+                      {key}
+                      <input
+                        type="number"
+                        min={0}
+                        className="border rounded px-1 py-1 text-xs w-24"
+                        placeholder="unknown"
+                        value={graph.nodes.find((node) => node.id === editingNodeId)![key] ?? ""}
+                        onChange={(e) => {
+                          const value = e.target.value === "" ? undefined : Math.max(0, Number(e.target.value))
+                          if (Number.isNaN(value)) return
+                          recordHistory(`Set ${key} of ${getNodeLabel(editingNodeId)}`, true)
+                          setGraph((prevGraph) => updateNode(prevGraph, editingNodeId, { [key]: value }))
+                          setScenarioId(null)
+                        }}
+                      />
+                    </label>
+                  ))}
                 </div>
               )}
-              <div className="text-xs flex items-center mb-1">
-                <div className="w-3 h-3 rounded-full bg-[#8b5cf6] mr-1"></div>
-                <span>Hub</span>
-              </div>
-              <div className="text-xs flex items-center mb-1">
-                <div className="w-3 h-3 rounded-full bg-[#6b7280] mr-1"></div>
-                <span>City</span>
-              </div>
-              <div className="text-xs flex items-center">
-                <div className="w-3 h-3 rounded-full bg-[#94a3b8] mr-1"></div>
-                <span>Barangay</span>
-              </div>
             </div>
-          </div>
+          )}
 
-          {mode === "failure" && (
-            <div className="p-4 bg-red-50 border-t border-red-200">
-              <h3 className="text-sm font-medium flex items-center">
-                <AlertCircle className="h-4 w-4 mr-1 text-red-500" />
-                Failure Simulation Mode
-              </h3>
+          {recoveryEdges.length > 0 && (
+            <div className="p-4 bg-violet-50 border-t border-violet-200">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium flex items-center">
+                  <RefreshCw className="h-4 w-4 mr-1 text-violet-500" />
+                  Review Proposed Recovery Links
+                </h3>
+                <div className="flex gap-1">
+                  <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={acceptAllRecoveryEdges}>
+                    Accept All
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => {
+                      recordHistory("Rejected all recovery links")
+                      setRecoveryEdges([])
+                    }}
+                  >
+                    Reject All
+                  </Button>
+                </div>
+              </div>
               <p className="text-xs text-gray-600 mt-1">
-                Click on the table below to toggle infrastructure failures and test network resilience
+                Accepted links become part of the network and are included in every later analysis
               </p>
 
               <div className="mt-2 max-h-32 overflow-y-auto">
                 <table className="w-full text-xs">
                   <thead>
                     <tr className="bg-gray-100">
-                      <th className="p-1 text-left">Connection</th>
-                      <th className="p-1 text-center">Status</th>
+                      <th className="p-1 text-left">Proposed Link</th>
+                      <th className="p-1 text-center">Length</th>
                       <th className="p-1 text-center">Action</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {graph.edges.map((edge, idx) => (
+                    {recoveryEdges.map((edge, idx) => (
                       <tr key={idx} className="border-t border-gray-200">
                         <td className="p-1">
                           {getNodeLabel(edge.source)} → {getNodeLabel(edge.target)}
                         </td>
                         <td className="p-1 text-center">
-                          {edge.isActive ? (
-                            <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                              Active
-                            </Badge>
-                          ) : (
-                            <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
-                              Failed
-                            </Badge>
-                          )}
+                          {formatDistance(getEdgeWeight(edge, "distance", indexNodes(graph)))}
                         </td>
                         <td className="p-1 text-center">
                           <Button
                             variant="ghost"
                             size="sm"
                             className="h-6 px-2"
-                            onClick={() => toggleEdge(edge.source, edge.target)}
+                            onClick={() => acceptRecoveryEdge(edge)}
                           >
-                            Toggle
+                            Accept
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2"
+                            onClick={() => rejectRecoveryEdge(edge)}
+                          >
+                            Reject
                           </Button>
                         </td>
                       </tr>
@@ -726,10 +1915,54 @@ export default function TelecomSimulator() {
                   <Button onClick={runDFS} className="w-full mb-2" variant="default">
                     Run DFS (Find Critical Points)
                   </Button>
-                  <Button onClick={recoverNetwork} className="w-full mb-2" variant="secondary">
+                  <Button onClick={runDecomposition} className="w-full mb-2" variant="outline">
+                    Find Resilient Islands (Blocks)
+                  </Button>
+                  <Button onClick={() => recoverNetwork()} className="w-full mb-2" variant="secondary">
                     Auto-Recover Network
                   </Button>
-                  <p className="text-xs text-gray-500">Identifies bridges and articulation points in the network</p>
+                  <div className="flex gap-1 mb-2">
+                    <Button
+                      variant={redundancyGoal === "two-edge" ? "secondary" : "outline"}
+                      size="sm"
+                      className="flex-1 h-7 text-xs"
+                      onClick={() => setRedundancyGoal("two-edge")}
+                    >
+                      No bridges
+                    </Button>
+                    <Button
+                      variant={redundancyGoal === "biconnected" ? "secondary" : "outline"}
+                      size="sm"
+                      className="flex-1 h-7 text-xs"
+                      onClick={() => setRedundancyGoal("biconnected")}
+                    >
+                      + No cut sites
+                    </Button>
+                    <Button
+                      variant={redundancyObjective === "fewest" ? "secondary" : "outline"}
+                      size="sm"
+                      className="flex-1 h-7 text-xs"
+                      onClick={() => setRedundancyObjective("fewest")}
+                    >
+                      Fewest
+                    </Button>
+                    <Button
+                      variant={redundancyObjective === "shortest" ? "secondary" : "outline"}
+                      size="sm"
+                      className="flex-1 h-7 text-xs"
+                      onClick={() => setRedundancyObjective("shortest")}
+                    >
+                      Shortest
+                    </Button>
+                  </div>
+                  <Button onClick={runRedundancyPlanner} className="w-full mb-2" variant="outline">
+                    Plan Redundant Links
+                  </Button>
+                  <p className="text-xs text-gray-500">
+                    Identifies bridges, articulation points and the blocks that survive any single failure, and plans
+                    new links that would remove them; links are picked greedily, so the plan may not be the smallest
+                    possible
+                  </p>
                 </div>
 
                 <div>
@@ -754,9 +1987,222 @@ export default function TelecomSimulator() {
                       </span>
                     )}
                   </div>
-                  <Button onClick={runBFS} className="w-full" variant="default" disabled={!selectedNode || !targetNode}>
+                  <Button
+                    onClick={runBFS}
+                    className="w-full mb-2"
+                    variant="default"
+                    disabled={!selectedNode || !targetNode}
+                  >
                     Run BFS (Find Shortest Path)
                   </Button>
+                  <div className="flex gap-1 mb-2">
+                    {edgeMetrics.map((metric) => (
+                      <Button
+                        key={metric}
+                        variant={weightMetric === metric ? "secondary" : "outline"}
+                        size="sm"
+                        className="flex-1 h-7 text-xs capitalize"
+                        onClick={() => setWeightMetric(metric)}
+                      >
+                        {metric}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex gap-1 mb-2">
+                    <Button
+                      variant={weightedAlgorithm === "dijkstra" ? "secondary" : "outline"}
+                      size="sm"
+                      className="flex-1 h-7 text-xs"
+                      onClick={() => setWeightedAlgorithm("dijkstra")}
+                    >
+                      Dijkstra
+                    </Button>
+                    <Button
+                      variant={weightedAlgorithm === "astar" ? "secondary" : "outline"}
+                      size="sm"
+                      className="flex-1 h-7 text-xs"
+                      onClick={() => setWeightedAlgorithm("astar")}
+                    >
+                      A*
+                    </Button>
+                  </div>
+                  <Button
+                    onClick={runWeightedPath}
+                    className="w-full"
+                    variant="default"
+                    disabled={!selectedNode || !targetNode}
+                  >
+                    Run Weighted Path (Lowest {weightMetric})
+                  </Button>
+                  <div className="flex gap-1 mt-2 mb-2">
+                    <Button
+                      variant={disjointMode === "edge" ? "secondary" : "outline"}
+                      size="sm"
+                      className="flex-1 h-7 text-xs"
+                      onClick={() => setDisjointMode("edge")}
+                    >
+                      No shared links
+                    </Button>
+                    <Button
+                      variant={disjointMode === "node" ? "secondary" : "outline"}
+                      size="sm"
+                      className="flex-1 h-7 text-xs"
+                      onClick={() => setDisjointMode("node")}
+                    >
+                      No shared sites
+                    </Button>
+                    {[2, 3, 4].map((count) => (
+                      <Button
+                        key={count}
+                        variant={disjointCount === count ? "secondary" : "outline"}
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => setDisjointCount(count)}
+                      >
+                        {count}
+                      </Button>
+                    ))}
+                  </div>
+                  <Button
+                    onClick={runDisjointPaths}
+                    className="w-full"
+                    variant="default"
+                    disabled={!selectedNode || !targetNode}
+                  >
+                    Find {disjointCount} Disjoint Backup Paths
+                  </Button>
+                  <Button
+                    onClick={runMaxFlow}
+                    className="w-full mt-2"
+                    variant="secondary"
+                    disabled={!selectedNode || !targetNode}
+                  >
+                    Run Max Flow (Find Bottlenecks)
+                  </Button>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium mb-2 flex items-center">
+                    <AlertCircle className="h-4 w-4 mr-1" />
+                    Reliability
+                  </h3>
+                  <div className="flex gap-1 mb-2">
+                    {[1000, 5000, 20000].map((samples) => (
+                      <Button
+                        key={samples}
+                        variant={reliabilitySamples === samples ? "secondary" : "outline"}
+                        size="sm"
+                        className="flex-1 h-7 text-xs"
+                        onClick={() => setReliabilitySamples(samples)}
+                      >
+                        {samples.toLocaleString()}
+                      </Button>
+                    ))}
+                  </div>
+                  <Button onClick={runReliability} className="w-full mb-2" variant="secondary">
+                    Run Monte Carlo Reliability
+                  </Button>
+                  <p className="text-xs text-gray-500">
+                    Fails each link at random with its failure probability (set in Failure Mode, default{" "}
+                    {DEFAULT_FAILURE_PROBABILITY}) and estimates how often each site still reaches a hub
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium mb-2 flex items-center">
+                    <ListOrdered className="h-4 w-4 mr-1" />
+                    Criticality
+                  </h3>
+                  <Button onClick={runCriticality} className="w-full mb-2" variant="secondary">
+                    Rank Critical Links &amp; Sites
+                  </Button>
+                  <p className="text-xs text-gray-500">
+                    Removes each working link and site in turn and measures the sites and people cut off and the extra
+                    hops to the nearest hub
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium mb-2 flex items-center">
+                    <Activity className="h-4 w-4 mr-1" />
+                    Traffic
+                  </h3>
+                  <div className="flex gap-2 mb-2 text-xs">
+                    {(["city", "barangay"] as const).map((type) => (
+                      <label key={type} className="flex-1 flex items-center gap-1 capitalize">
+                        {type}
+                        <input
+                          type="number"
+                          min={0}
+                          className="w-full border rounded px-1"
+                          value={demandMbps[type]}
+                          onChange={(e) => {
+                            const value = Number(e.target.value)
+                            if (!Number.isNaN(value)) setDemandMbps({ ...demandMbps, [type]: Math.max(0, value) })
+                          }}
+                        />
+                        <span className="normal-case">Mbps</span>
+                      </label>
+                    ))}
+                  </div>
+                  <Button
+                    onClick={toggleTraffic}
+                    className="w-full mb-2"
+                    variant={showTraffic ? "secondary" : "outline"}
+                  >
+                    {showTraffic ? "Hide Traffic Load" : "Show Traffic Load"}
+                  </Button>
+                  <p className="text-xs text-gray-500">
+                    Routes each site&apos;s demand to its nearest hub over the fewest hops and colors links by load; it
+                    updates as links fail and recover
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium mb-2 flex items-center">
+                    <Clock className="h-4 w-4 mr-1" />
+                    Outages Over Time
+                  </h3>
+                  <div className="flex gap-1 mb-2">
+                    {(
+                      [
+                        [168, "1 week"],
+                        [720, "30 days"],
+                        [8760, "1 year"],
+                      ] as const
+                    ).map(([duration, label]) => (
+                      <Button
+                        key={duration}
+                        variant={outageHours === duration ? "secondary" : "outline"}
+                        size="sm"
+                        className="flex-1 h-7 text-xs"
+                        onClick={() => setOutageHours(duration)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-1 mb-2 text-xs">
+                    <span className="mr-1">Repair crews:</span>
+                    {[1, 2, 3].map((crews) => (
+                      <Button
+                        key={crews}
+                        variant={repairCrews === crews ? "secondary" : "outline"}
+                        size="sm"
+                        className="flex-1 h-7 text-xs"
+                        onClick={() => setRepairCrews(crews)}
+                      >
+                        {crews}
+                      </Button>
+                    ))}
+                  </div>
+                  <Button onClick={runOutageSimulation} className="w-full mb-2" variant="secondary">
+                    Run Outage Simulation
+                  </Button>
+                  <p className="text-xs text-gray-500">
+                    Links fail after {DEFAULT_MTBF_HOURS} hours on average and take {DEFAULT_MTTR_HOURS} hours to repair
+                    unless their imported MTBF and MTTR say otherwise; replay the run in the Outages tab
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -769,23 +2215,45 @@ export default function TelecomSimulator() {
             </CardHeader>
             <CardContent>
               <Tabs defaultValue="log">
-                <TabsList className="w-full">
+                <TabsList className="w-full h-auto flex-wrap">
                   <TabsTrigger value="log" className="flex-1">
                     Algorithm Log
                   </TabsTrigger>
                   <TabsTrigger value="summary" className="flex-1">
                     Summary
                   </TabsTrigger>
+                  <TabsTrigger value="blocks" className="flex-1">
+                    Blocks
+                  </TabsTrigger>
+                  <TabsTrigger value="reliability" className="flex-1">
+                    Reliability
+                  </TabsTrigger>
+                  <TabsTrigger value="criticality" className="flex-1">
+                    Criticality
+                  </TabsTrigger>
+                  <TabsTrigger value="outages" className="flex-1">
+                    Outages
+                  </TabsTrigger>
+                  <TabsTrigger value="history" className="flex-1">
+                    History
+                  </TabsTrigger>
                 </TabsList>
                 <TabsContent value="log" className="mt-2">
                   <div className="bg-slate-50 p-2 rounded text-xs h-[200px] overflow-y-auto">
                     {algorithmResult.length > 0 ? (
                       <ul className="space-y-1">
-                        {algorithmResult.map((line, idx) => (
-                          <li key={idx} className="border-b border-slate-100 pb-1">
-                            {line}
-                          </li>
-                        ))}
+                        {(playbackStep === null ? algorithmResult : algorithmResult.slice(0, playbackStep)).map(
+                          (line, idx) => (
+                            <li
+                              key={idx}
+                              className={`border-b border-slate-100 pb-1 ${
+                                playbackStep !== null && idx === playbackStep - 1 ? "bg-yellow-100 font-medium" : ""
+                              }`}
+                            >
+                              {line}
+                            </li>
+                          ),
+                        )}
                       </ul>
                     ) : (
                       <p className="text-gray-500 italic">Run an algorithm to see results</p>
@@ -794,6 +2262,88 @@ export default function TelecomSimulator() {
                 </TabsContent>
                 <TabsContent value="summary" className="mt-2">
                   <div className="space-y-3">
+                    {impact.sites > 0 && (
+                      <div>
+                        <h3 className="text-sm font-medium">People Cut Off</h3>
+                        <p className="text-xs mt-1">
+                          {impact.population.toLocaleString()} people in {impact.households.toLocaleString()} households
+                          at {impact.sites} {impact.sites === 1 ? "site" : "sites"} cannot reach any hub
+                        </p>
+                        <table className="w-full text-xs mt-1">
+                          <thead>
+                            <tr className="bg-gray-100">
+                              <th className="p-1 text-left">Type</th>
+                              <th className="p-1 text-right">Sites</th>
+                              <th className="p-1 text-right">People</th>
+                              <th className="p-1 text-right">Households</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {(["hub", "city", "barangay"] as const)
+                              .filter((type) => impact.byType[type].sites > 0)
+                              .map((type) => (
+                                <tr key={type} className="border-t border-gray-200">
+                                  <td className="p-1 capitalize">{type}</td>
+                                  <td className="p-1 text-right">{impact.byType[type].sites}</td>
+                                  <td className="p-1 text-right">{impact.byType[type].population.toLocaleString()}</td>
+                                  <td className="p-1 text-right">{impact.byType[type].households.toLocaleString()}</td>
+                                </tr>
+                              ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
+                    {areaOutage && (
+                      <div>
+                        <h3 className="text-sm font-medium">Area Outage</h3>
+                        <p className="text-xs mt-1">
+                          {areaOutage.failedSites.length} sites and {areaOutage.failedLinks.length} links failed inside
+                          the area
+                          {areaOutage.failedSites.length > 0 &&
+                            `: ${areaOutage.failedSites.map(getNodeLabel).join(", ")}`}
+                        </p>
+                        <p className="text-xs">
+                          {areaOutage.isolatedSites.length > 0 ? (
+                            <span className="text-red-600">
+                              Lost connectivity: {areaOutage.isolatedSites.map(getNodeLabel).join(", ")}
+                            </span>
+                          ) : (
+                            "Every other site still reaches a hub"
+                          )}
+                        </p>
+                      </div>
+                    )}
+
+                    {components.length > 0 && (
+                      <div>
+                        <h3 className="text-sm font-medium">Connected Components</h3>
+                        <ul className="text-xs mt-1 space-y-1">
+                          {components.map((component, idx) => {
+                            const hubs = component.filter((id) =>
+                              graph.nodes.some((n) => n.id === id && n.type === "hub"),
+                            )
+                            return (
+                              <li key={idx} className="flex items-center">
+                                <div
+                                  className="w-3 h-3 rounded-full mr-1 shrink-0"
+                                  style={{ backgroundColor: componentColors[idx % componentColors.length] }}
+                                ></div>
+                                <span>
+                                  Component {idx + 1}: {component.length} {component.length === 1 ? "node" : "nodes"} ·{" "}
+                                  {hubs.length > 0 ? (
+                                    `hub: ${hubs.map(getNodeLabel).join(", ")}`
+                                  ) : (
+                                    <span className="text-red-600">no hub</span>
+                                  )}
+                                </span>
+                              </li>
+                            )
+                          })}
+                        </ul>
+                      </div>
+                    )}
+
                     <div>
                       <h3 className="text-sm font-medium">Critical Infrastructure</h3>
                       {bridges.length > 0 ? (
@@ -825,18 +2375,327 @@ export default function TelecomSimulator() {
                       )}
                     </div>
 
+                    {traffic && (
+                      <div>
+                        <h3 className="text-sm font-medium">Traffic</h3>
+                        <p className="text-xs mt-1">
+                          Demand {formatWeight(traffic.totalDemand)} Mbps · delivered{" "}
+                          {formatWeight(traffic.totalDemand - traffic.unmetDemand)} Mbps
+                          {traffic.unmetDemand > 0 && (
+                            <span className="text-red-600"> · unmet {formatWeight(traffic.unmetDemand)} Mbps</span>
+                          )}
+                        </p>
+                        {traffic.overloaded.length > 0 && (
+                          <div className="mt-1">
+                            <p className="text-xs font-medium">Overloaded Links:</p>
+                            <ul className="text-xs list-disc pl-4">
+                              {traffic.overloaded.map((edgeIndex) => (
+                                <li key={edgeIndex}>
+                                  {getNodeLabel(graph.edges[edgeIndex].source)} ↔{" "}
+                                  {getNodeLabel(graph.edges[edgeIndex].target)}: {formatWeight(traffic.load[edgeIndex])}{" "}
+                                  / {getEdgeCapacity(graph.edges[edgeIndex])} Mbps
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {traffic.demands.some((demand) => demand.delivered < demand.mbps) && (
+                          <div className="mt-1">
+                            <p className="text-xs font-medium">Unmet Demand:</p>
+                            <ul className="text-xs list-disc pl-4">
+                              {traffic.demands
+                                .filter((demand) => demand.delivered < demand.mbps)
+                                .map((demand) => (
+                                  <li key={demand.source}>
+                                    {getNodeLabel(demand.source)} → {getNodeLabel(demand.target)}:{" "}
+                                    {formatWeight(demand.delivered)} of {demand.mbps} Mbps
+                                    {demand.path.length === 0 && " (no route)"}
+                                  </li>
+                                ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {redundancyPlan && (
+                      <div>
+                        <h3 className="text-sm font-medium">Redundancy Plan</h3>
+                        <p className="text-xs mt-1">
+                          Bridges: {redundancyPlan.bridgesBefore} → {redundancyPlan.bridgesAfter} · Articulation points:{" "}
+                          {redundancyPlan.articulationPointsBefore} → {redundancyPlan.articulationPointsAfter}
+                        </p>
+                        {redundancyPlan.proposals.length > 0 ? (
+                          <>
+                            <ul className="text-xs list-disc pl-4 mt-1">
+                              {redundancyPlan.proposals.map((proposal, idx) => (
+                                <li key={idx}>
+                                  {getNodeLabel(proposal.source)} ↔ {getNodeLabel(proposal.target)} (
+                                  {formatDistance(proposal.distance)})
+                                </li>
+                              ))}
+                            </ul>
+                            <div className="flex items-center justify-between mt-1">
+                              <p className="text-xs text-gray-500">
+                                {redundancyPlan.proposals.length} new links, total length{" "}
+                                {formatDistance(redundancyPlan.totalDistance)}
+                              </p>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={addRedundancyLinks}
+                              >
+                                Add These Links
+                              </Button>
+                            </div>
+                          </>
+                        ) : (
+                          <p className="text-xs text-gray-500 mt-1">No new links needed</p>
+                        )}
+                        {redundancyPlan.bridgesAfter > 0 && (
+                          <p className="text-xs text-amber-700 mt-1">
+                            Remaining bridges join separate parts of the network or an isolated pair of sites, which a
+                            single new link cannot protect
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {recoveryStats && (
+                      <div>
+                        <h3 className="text-sm font-medium">Recovery Plan</h3>
+                        <p className="text-xs mt-1">
+                          {recoveryStats.proposals.length} new links, total length{" "}
+                          {formatDistance(recoveryStats.totalDistance)}
+                        </p>
+                        {recoveryStats.baseline && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Per-node nearest neighbor: {recoveryStats.baseline.links} links, total length{" "}
+                            {formatDistance(recoveryStats.baseline.distance)}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {maxFlow !== null && (
+                      <div>
+                        <h3 className="text-sm font-medium">Bandwidth</h3>
+                        <p className="text-xs mt-1">Maximum flow: {maxFlow} Mbps</p>
+                        {minCutEdges.length > 0 && (
+                          <div className="mt-1">
+                            <p className="text-xs font-medium">Bottleneck Links (Min-Cut):</p>
+                            <ul className="text-xs list-disc pl-4">
+                              {minCutEdges.map((edge, idx) => (
+                                <li key={idx}>
+                                  {getNodeLabel(edge.source)} ↔ {getNodeLabel(edge.target)} ({getEdgeCapacity(edge)}{" "}
+                                  Mbps)
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {disjointPaths && disjointPaths.paths.length > 0 && (
+                      <div>
+                        <h3 className="text-sm font-medium">
+                          {disjointPaths.mode === "edge" ? "Link-Disjoint" : "Site-Disjoint"} Paths
+                        </h3>
+                        <ul className="text-xs mt-1 space-y-1">
+                          {disjointPaths.paths.map((disjointPath, idx) => (
+                            <li key={idx} className="flex items-start">
+                              <div
+                                className="w-3 h-3 rounded-full mr-1 mt-0.5 shrink-0"
+                                style={{ backgroundColor: disjointColors[idx % disjointColors.length] }}
+                              ></div>
+                              <span>
+                                {disjointPath.map(getNodeLabel).join(" → ")} ({disjointPath.length - 1} hops)
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                        {disjointPaths.cutLinks.length + disjointPaths.cutSites.length > 0 && (
+                          <p className="text-xs text-red-600 mt-1">
+                            No further path avoids{" "}
+                            {[
+                              ...disjointPaths.cutLinks.map(
+                                (idx) =>
+                                  `${getNodeLabel(graph.edges[idx].source)} – ${getNodeLabel(graph.edges[idx].target)}`,
+                              ),
+                              ...disjointPaths.cutSites.map(getNodeLabel),
+                            ].join(", ")}
+                            {disjointPaths.cutLinks.length === 1 &&
+                              disjointPaths.cutSites.length === 0 &&
+                              " (a bridge)"}
+                            {disjointPaths.cutSites.length === 1 &&
+                              disjointPaths.cutLinks.length === 0 &&
+                              " (an articulation point)"}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     {path.length > 0 && (
                       <div>
                         <h3 className="text-sm font-medium">Shortest Path</h3>
                         <p className="text-xs mt-1">{path.map(getNodeLabel).join(" → ")}</p>
-                        <p className="text-xs text-gray-500 mt-1">Path length: {path.length - 1} hops</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Path length: {path.length - 1} hops · Total {weightMetric}:{" "}
+                          {weightMetric === "distance"
+                            ? formatDistance(getPathWeight(graph, path, weightMetric))
+                            : formatWeight(getPathWeight(graph, path, weightMetric))}
+                        </p>
                       </div>
                     )}
                   </div>
                 </TabsContent>
+                <TabsContent value="blocks" className="mt-2">
+                  {decomposition ? (
+                    <div className="space-y-3 h-[200px] overflow-y-auto">
+                      <div className="flex gap-1">
+                        <Button
+                          variant={decompositionView === "blocks" ? "secondary" : "outline"}
+                          size="sm"
+                          className="flex-1 h-7 text-xs"
+                          onClick={() => setDecompositionView("blocks")}
+                        >
+                          Blocks
+                        </Button>
+                        <Button
+                          variant={decompositionView === "two-edge" ? "secondary" : "outline"}
+                          size="sm"
+                          className="flex-1 h-7 text-xs"
+                          onClick={() => setDecompositionView("two-edge")}
+                        >
+                          2-Edge-Connected
+                        </Button>
+                      </div>
+
+                      <div>
+                        <h3 className="text-sm font-medium">
+                          {decompositionView === "blocks"
+                            ? "Blocks (Biconnected Components)"
+                            : "2-Edge-Connected Components"}
+                        </h3>
+                        <ul className="text-xs mt-1 space-y-1">
+                          {(decompositionView === "blocks"
+                            ? decomposition.blocks.map((block) => block.nodes)
+                            : decomposition.twoEdgeComponents
+                          ).map((nodes, idx) => (
+                            <li key={idx} className="flex items-start">
+                              <div
+                                className="w-3 h-3 rounded-full mr-1 mt-0.5 shrink-0"
+                                style={{ backgroundColor: componentColors[idx % componentColors.length] }}
+                              ></div>
+                              <span>
+                                {decompositionView === "blocks" ? "Block" : "Island"} {idx + 1}:{" "}
+                                {nodes.map(getNodeLabel).join(", ")}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+
+                      <div>
+                        <h3 className="text-sm font-medium">Block-Cut Tree</h3>
+                        {decomposition.blockCutTree.cutVertices.length > 0 ? (
+                          <ul className="text-xs mt-1 list-disc pl-4">
+                            {decomposition.blockCutTree.cutVertices.map((cutVertex) => (
+                              <li key={cutVertex}>
+                                {getNodeLabel(cutVertex)} joins{" "}
+                                {decomposition.blockCutTree.links
+                                  .filter((link) => link.cutVertex === cutVertex)
+                                  .map((link) => `Block ${link.block + 1}`)
+                                  .join(", ")}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-xs text-gray-500 mt-1">No cut vertices: every block stands alone</p>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 italic">
+                      Click &quot;Find Resilient Islands&quot; to decompose the network
+                    </p>
+                  )}
+                </TabsContent>
+                <TabsContent value="reliability" className="mt-2">
+                  {reliability ? (
+                    <ReliabilityTable result={reliability} nodes={graph.nodes} />
+                  ) : (
+                    <p className="text-xs text-gray-500 italic">
+                      Click &quot;Run Monte Carlo Reliability&quot; to estimate each site&apos;s chance of reaching a
+                      hub
+                    </p>
+                  )}
+                </TabsContent>
+                <TabsContent value="criticality" className="mt-2">
+                  {criticality ? (
+                    <CriticalityTable
+                      result={criticality}
+                      graph={graph}
+                      selected={criticalSelection}
+                      onSelect={setCriticalSelection}
+                    />
+                  ) : (
+                    <p className="text-xs text-gray-500 italic">
+                      Click &quot;Rank Critical Links &amp; Sites&quot; to see which single failure would do the most
+                      damage
+                    </p>
+                  )}
+                </TabsContent>
+                <TabsContent value="outages" className="mt-2">
+                  {outageSimulation ? (
+                    <OutageReport
+                      result={outageSimulation}
+                      graph={graph}
+                      time={outageTime}
+                      onTimeChange={setOutageTime}
+                    />
+                  ) : (
+                    <p className="text-xs text-gray-500 italic">
+                      Click &quot;Run Outage Simulation&quot; to replay link failures and repairs over time
+                    </p>
+                  )}
+                </TabsContent>
+                <TabsContent value="history" className="mt-2">
+                  <div className="bg-slate-50 p-2 rounded text-xs h-[200px] overflow-y-auto">
+                    <ol className="space-y-1">
+                      {history.entries.map((entry, idx) => (
+                        <li key={idx}>
+                          <button
+                            className={`w-full text-left px-1 rounded hover:bg-slate-200 ${
+                              idx === history.index
+                                ? "bg-blue-100 font-medium"
+                                : idx > history.index
+                                  ? "text-gray-400"
+                                  : ""
+                            }`}
+                            onClick={() => restoreHistory(jumpTo(history, idx))}
+                          >
+                            {idx + 1}. {entry.label}
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Click an entry to jump to it; greyed entries can be redone
+                  </p>
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
+
+          <ScenarioPicker scenarioId={scenarioId} onLoad={loadScenario} onStartDrill={startDrill} />
+
+          <TopologyIO graph={graph} onImport={importGraph} />
+
+          <SessionManager captureState={captureSession} onLoad={restoreSession} />
         </div>
       </div>
 
@@ -849,6 +2708,12 @@ export default function TelecomSimulator() {
             <ul className="list-disc pl-5 mt-1 text-gray-600">
               <li>Bridges (orange lines) - connections whose failure would disconnect parts of the network</li>
               <li>Articulation points (orange nodeswould disconnect parts of the network</li>
+              <li>Connected components - shaded in distinct colors when failures split the network</li>
+              <li>Resilient islands - blocks and 2-edge-connected components listed in the Blocks tab</li>
+              <li>
+                Criticality - &quot;Rank Critical Links &amp; Sites&quot; fails each one in turn; sort the Criticality
+                tab by sites or people cut off or extra hops, and click a row to highlight it on the map
+              </li>
             </ul>
           </div>
 
@@ -860,6 +2725,10 @@ export default function TelecomSimulator() {
               2. Click on another node to select it as the target
               <br />
               3. Click "Run BFS" to find the shortest path (green line)
+              <br />
+              4. Or pick a metric and click &quot;Run Weighted Path&quot; to minimize distance, latency or cost
+              <br />
+              5. Click &quot;Run Max Flow&quot; to measure available bandwidth and highlight bottleneck links
             </p>
           </div>
 
@@ -868,9 +2737,13 @@ export default function TelecomSimulator() {
             <p className="text-gray-600">
               1. Click "Failure Mode" to enter simulation mode
               <br />
-              2. Toggle connections on/off in the table to simulate infrastructure failures
+              2. Toggle connections or whole sites on/off in the tables to simulate infrastructure failures
               <br />
               3. Run DFS and BFS to analyze network resilience after failures
+              <br />
+              4. The Summary tab counts the people and households cut off from every hub by site type, and
+              &quot;Auto-Recover Network&quot; logs them before and after its proposed links; set population figures per
+              site in Edit mode or import them
             </p>
           </div>
           <div>
@@ -878,9 +2751,125 @@ export default function TelecomSimulator() {
             <p className="text-gray-600">
               1. Enter "Failure Mode" and disable some connections
               <br />
-              2. Click "Auto-Recover Network" to automatically reconnect isolated nodes
+              2. Click "Auto-Recover Network" to join isolated parts of the network with the fewest, shortest links
+              <br />
+              3. Purple dashed lines show the proposed connections; accept or reject each one in the review panel
+              <br />
+              4. Click &quot;Plan Redundant Links&quot; to preview, as teal dashed lines, the new links that leave no
+              bridges (and optionally no articulation points), with the bridge count before and after in the Summary
+              tab; links are picked greedily, so a plan can use more links or length than the true minimum
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Topology Editor</h3>
+            <p className="text-gray-600">
+              1. Click &quot;Edit&quot; to change the network
+              <br />
+              2. Add hubs, cities and barangays, draw or delete links, and drag sites into place
+              <br />
+              3. Every analysis runs on the edited network
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Scenarios &amp; Drills</h3>
+            <p className="text-gray-600">
+              1. Pick a bundled network such as the Mindanao ring, the Visayas island chain (submarine cables in blue)
+              or the Cordillera tree
+              <br />
+              2. Click &quot;Start Drill&quot; to apply the scenario&apos;s preset failures and switch to failure mode
+              <br />
+              3. Analyze the damage and run recovery, then Reset to bring everything back up
+              <br />
+              4. Click &quot;Share&quot; to copy a link that reopens the same failures, source/target, mode and any
+              custom topology
+              <br />
+              5. Name and save a session to keep failures, recovery links and results in this browser; load, rename,
+              duplicate or delete saves from the list
+              <br />
+              6. Undo and redo failures, edits, accepted recoveries and mode changes with the arrow buttons, Ctrl+Z and
+              Ctrl+Shift+Z, or jump to any step in the History tab
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Import &amp; Export</h3>
+            <p className="text-gray-600">
+              1. Export the current network, including failures and recovery links, as JSON
+              <br />
+              2. Import a JSON topology to replace the network; problems are listed before anything changes
+              <br />
+              3. Reset returns to the last imported network
+              <br />
+              4. Import GeoJSON to load Point sites and LineString links; lat/long is projected onto the canvas and
+              lengths are measured in kilometers along the great circle
+              <br />
+              5. Import CSV inventories: choose a nodes CSV and optionally an edges CSV, check which column feeds each
+              field, then import; rows with problems are skipped and listed by row number
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Step-Through Playback</h3>
+            <p className="text-gray-600">
+              1. Run any algorithm, then press play or step through it with the controls under the map
+              <br />
+              2. The yellow ring marks the current node and blue dashed rings the queue or stack
+              <br />
+              3. During DFS, each node shows its discovery time / low-link value
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Reliability</h3>
+            <p className="text-gray-600">
+              1. In Failure Mode, set each link&apos;s failure probability in the links table
+              <br />
+              2. Pick a number of samples and click &quot;Run Monte Carlo Reliability&quot;
+              <br />
+              3. Sites are shaded by how often they still reach a hub; the Reliability tab lists the estimates with 95%
+              confidence intervals
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Area Disasters</h3>
+            <p className="text-gray-600">
+              1. In Failure Mode, pick Circle Area and drag on the map, or pick Polygon Area, click its corners and
+              click the first corner again or Finish
+              <br />
+              2. Every site inside the area fails, along with every link that crosses it
+              <br />
+              3. The sites cut off are reported and recovery links are proposed right away
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Backup Paths</h3>
+            <p className="text-gray-600">
+              1. Select a source and a target, then pick &quot;No shared links&quot; or &quot;No shared sites&quot;
+              <br />
+              2. Pick how many paths you need and click &quot;Find Disjoint Backup Paths&quot;; each route is drawn in
+              its own color
+              <br />
+              3. When too few exist, the bridge or articulation point in the way is circled and named in the log
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Outages Over Time</h3>
+            <p className="text-gray-600">
+              1. Pick a time span and the number of repair crews, then click &quot;Run Outage Simulation&quot;
+              <br />
+              2. Links fail and are repaired at random according to their MTBF and MTTR; failed links wait for a free
+              crew
+              <br />
+              3. Drag the slider in the Outages tab to replay which links were down, and sort sites by availability,
+              downtime or number of outages
+            </p>
+          </div>
+          <div>
+            <h3 className="font-medium mb-1">Traffic</h3>
+            <p className="text-gray-600">
+              1. Set the demand of each city and barangay, then click &quot;Show Traffic Load&quot;
+              <br />
+              2. Each site&apos;s traffic is routed to its nearest hub and links are colored by utilization
               <br />
-              3. Purple dashed lines show the new recovery connections
+              3. Overloaded links and unmet demand are listed in the Summary tab and update after failures and
+              recoveries
             </p>
           </div>
         </div>
@@ -888,4 +2877,3 @@ export default function TelecomSimulator() {
     </div>
   )
 }
-
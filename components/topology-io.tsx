@@ -0,0 +1,115 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import CsvImport from "@/components/csv-import"
+import { AlertCircle, Download, Globe, Upload } from "lucide-react"
+import type { Graph } from "@/lib/graph"
+import { downloadFile, exportTopology, parseGeoJson, parseTopology, type ImportResult } from "@/lib/io"
+
+type TopologyIOProps = {
+  graph: Graph
+  onImport: (graph: Graph) => void
+}
+
+// Import and export the network topology as files
+export default function TopologyIO({ graph, onImport }: TopologyIOProps) {
+  const [errors, setErrors] = useState<string[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [status, setStatus] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const geoJsonInputRef = useRef<HTMLInputElement>(null)
+
+  const handleExport = () => {
+    downloadFile("topology.json", exportTopology(graph), "application/json")
+  }
+
+  const handleFile = (parse: (text: string) => ImportResult) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow choosing the same file again after fixing it
+    e.target.value = ""
+    if (!file) return
+
+    applyImport(parse(await file.text()), file.name)
+  }
+
+  const applyImport = (result: ImportResult, source: string) => {
+    if (result.ok) {
+      setErrors([])
+      setWarnings(result.warnings)
+      setStatus(`Imported ${result.graph.nodes.length} sites and ${result.graph.edges.length} links from ${source}`)
+      onImport(result.graph)
+    } else {
+      setStatus(null)
+      setWarnings([])
+      setErrors(result.errors)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Topology Files</CardTitle>
+        <CardDescription>Load or save the network as JSON, or load sites and links from GeoJSON or CSV</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            Import JSON
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1" onClick={handleExport}>
+            <Download className="h-4 w-4 mr-1" />
+            Export JSON
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFile(parseTopology)}
+          />
+        </div>
+        <Button variant="outline" size="sm" className="w-full mt-2" onClick={() => geoJsonInputRef.current?.click()}>
+          <Globe className="h-4 w-4 mr-1" />
+          Import GeoJSON
+        </Button>
+        <input
+          ref={geoJsonInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          className="hidden"
+          onChange={handleFile(parseGeoJson)}
+        />
+        <CsvImport onImport={applyImport} />
+
+        {status && <p className="text-xs text-green-700 mt-2">{status}</p>}
+
+        {warnings.length > 0 && (
+          <ul className="text-xs text-amber-700 list-disc pl-4 mt-1 max-h-24 overflow-y-auto">
+            {warnings.map((warning, idx) => (
+              <li key={idx}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        {errors.length > 0 && (
+          <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded">
+            <p className="text-xs font-medium text-red-700 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              Import failed; the current network was kept
+            </p>
+            <ul className="text-xs text-red-700 list-disc pl-4 mt-1 max-h-32 overflow-y-auto">
+              {errors.map((error, idx) => (
+                <li key={idx}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
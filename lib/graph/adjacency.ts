@@ -0,0 +1,45 @@
+import type { Edge, Graph, Node } from "./types"
+
+// Neighbor entry that remembers which edge it came from, so parallel links stay distinguishable
+export type Neighbor = {
+  node: string
+  edge: number
+}
+
+export type AdjacencyList = Record<string, Neighbor[]>
+
+// Nodes that have not failed and can take part in any analysis
+export function getActiveNodes(graph: Graph): Node[] {
+  return graph.nodes.filter((node) => !node.isFailed)
+}
+
+// Build an adjacency list over active nodes and edges only, skipping self-loops and dangling endpoints.
+// Failed nodes get no entry, so any link touching them is unavailable as well.
+export function buildAdjacencyList(graph: Graph): AdjacencyList {
+  const adjList: AdjacencyList = {}
+  getActiveNodes(graph).forEach((node) => {
+    adjList[node.id] = []
+  })
+
+  graph.edges.forEach((edge, index) => {
+    if (!edge.isActive || edge.source === edge.target) return
+    if (!adjList[edge.source] || !adjList[edge.target]) return
+
+    adjList[edge.source].push({ node: edge.target, edge: index })
+    adjList[edge.target].push({ node: edge.source, edge: index })
+  })
+
+  return adjList
+}
+
+// Check whether an edge connects the two given nodes, in either direction
+export function connects(edge: Edge, a: string, b: string): boolean {
+  return (edge.source === a && edge.target === b) || (edge.source === b && edge.target === a)
+}
+
+// Straight-line distance between two nodes on the canvas
+export function euclideanDistance(a: Node, b: Node): number {
+  const dx = a.x - b.x
+  const dy = a.y - b.y
+  return Math.sqrt(dx * dx + dy * dy)
+}
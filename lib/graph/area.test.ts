@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { applyAreaOutage, doesSegmentCrossArea, isPointInArea } from "./area"
+import { initialGraph } from "./initial-graph"
+import type { DisasterArea } from "./types"
+
+const square = (x: number, y: number, size: number): DisasterArea => ({
+  kind: "polygon",
+  points: [
+    { x, y },
+    { x: x + size, y },
+    { x: x + size, y: y + size },
+    { x, y: y + size },
+  ],
+})
+
+describe("area geometry", () => {
+  it("tests points against circles and polygons", () => {
+    const circle: DisasterArea = { kind: "circle", center: { x: 0, y: 0 }, radius: 10 }
+
+    expect(isPointInArea({ x: 6, y: 8 }, circle)).toBe(true)
+    expect(isPointInArea({ x: 8, y: 8 }, circle)).toBe(false)
+    expect(isPointInArea({ x: 5, y: 5 }, square(0, 0, 10))).toBe(true)
+    expect(isPointInArea({ x: 15, y: 5 }, square(0, 0, 10))).toBe(false)
+    expect(isPointInArea({ x: 0, y: 0 }, { kind: "polygon", points: [{ x: 0, y: 0 }] })).toBe(false)
+  })
+
+  it("catches segments that pass through without an end inside", () => {
+    const circle: DisasterArea = { kind: "circle", center: { x: 0, y: 0 }, radius: 5 }
+
+    expect(doesSegmentCrossArea({ x: -20, y: 0 }, { x: 20, y: 0 }, circle)).toBe(true)
+    expect(doesSegmentCrossArea({ x: -20, y: 10 }, { x: 20, y: 10 }, circle)).toBe(false)
+    expect(doesSegmentCrossArea({ x: -5, y: 5 }, { x: 15, y: 5 }, square(0, 0, 10))).toBe(true)
+    expect(doesSegmentCrossArea({ x: -5, y: 15 }, { x: 15, y: 15 }, square(0, 0, 10))).toBe(false)
+  })
+})
+
+describe("applyAreaOutage", () => {
+  it("fails the sites and links in a circle and reports who was cut off", () => {
+    const { graph, failedSites, failedLinks, isolatedSites } = applyAreaOutage(initialGraph, {
+      kind: "circle",
+      center: { x: 150, y: 250 },
+      radius: 20,
+    })
+
+    expect(failedSites).toEqual(["3"])
+    expect(failedLinks.map((idx) => `${graph.edges[idx].source}-${graph.edges[idx].target}`)).toEqual([
+      "2-3",
+      "3-4",
+      "3-5",
+    ])
+    expect(isolatedSites.sort()).toEqual(["4", "5", "6", "7"])
+    expect(graph.nodes.find((node) => node.id === "3")?.isFailed).toBe(true)
+    expect(initialGraph.nodes.every((node) => !node.isFailed)).toBe(true)
+  })
+
+  it("cuts links crossing a polygon even when both sites survive", () => {
+    const { graph, failedSites, failedLinks, isolatedSites } = applyAreaOutage(initialGraph, square(340, 130, 20))
+
+    expect(failedSites).toEqual([])
+    expect(failedLinks.map((idx) => `${graph.edges[idx].source}-${graph.edges[idx].target}`)).toEqual(["1-11"])
+    // Quezon still has its own hub
+    expect(isolatedSites).toEqual([])
+  })
+})
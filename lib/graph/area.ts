@@ -0,0 +1,67 @@
+import { findHubConnected } from "./paths"
+import type { AreaOutageResult, DisasterArea, Graph, Point } from "./types"
+
+// Ray casting: count how many polygon edges a ray to the right of the point crosses
+const pointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+const distanceToSegment = (point: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t =
+    lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+// Which side of the line a-b the point c is on
+const orientation = (a: Point, b: Point, c: Point) => Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x))
+
+const segmentsIntersect = (p1: Point, p2: Point, q1: Point, q2: Point): boolean =>
+  orientation(p1, p2, q1) !== orientation(p1, p2, q2) && orientation(q1, q2, p1) !== orientation(q1, q2, p2)
+
+export function isPointInArea(point: Point, area: DisasterArea): boolean {
+  return area.kind === "circle"
+    ? Math.hypot(point.x - area.center.x, point.y - area.center.y) <= area.radius
+    : area.points.length >= 3 && pointInPolygon(point, area.points)
+}
+
+// A link is hit when it runs through the area, even if both ends are outside
+export function doesSegmentCrossArea(a: Point, b: Point, area: DisasterArea): boolean {
+  if (area.kind === "circle") return distanceToSegment(area.center, a, b) <= area.radius
+  if (area.points.length < 3) return false
+  if (isPointInArea(a, area) || isPointInArea(b, area)) return true
+  return area.points.some((point, idx) => segmentsIntersect(a, b, point, area.points[(idx + 1) % area.points.length]))
+}
+
+// Fail every site inside the area and every working link inside or crossing it, and report
+// which sites outside the area were cut off from all hubs as a result
+export function applyAreaOutage(graph: Graph, area: DisasterArea): AreaOutageResult {
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]))
+  const failedSites = graph.nodes.filter((node) => !node.isFailed && isPointInArea(node, area)).map((node) => node.id)
+  const failedLinks = graph.edges.flatMap((edge, idx) => {
+    const a = nodesById.get(edge.source)
+    const b = nodesById.get(edge.target)
+    return edge.isActive && a && b && doesSegmentCrossArea(a, b, area) ? [idx] : []
+  })
+
+  const damaged: Graph = {
+    nodes: graph.nodes.map((node) => (failedSites.includes(node.id) ? { ...node, isFailed: true } : node)),
+    edges: graph.edges.map((edge, idx) => (failedLinks.includes(idx) ? { ...edge, isActive: false } : edge)),
+  }
+
+  const before = findHubConnected(graph)
+  const after = findHubConnected(damaged)
+  const isolatedSites = Array.from(before).filter((id) => !after.has(id) && !failedSites.includes(id))
+
+  return { graph: damaged, failedSites, failedLinks, isolatedSites }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { findConnectedComponents } from "./components"
+import { initialGraph } from "./initial-graph"
+import type { Graph } from "./types"
+
+describe("findConnectedComponents", () => {
+  it("finds a single component in the sample network", () => {
+    expect(findConnectedComponents(initialGraph)).toHaveLength(1)
+  })
+
+  it("splits the network at failed links and leaves out failed sites", () => {
+    const graph: Graph = {
+      nodes: initialGraph.nodes.map((node) => (node.id === "13" ? { ...node, isFailed: true } : node)),
+      edges: initialGraph.edges.map((edge) =>
+        edge.source === "1" && edge.target === "11" ? { ...edge, isActive: false } : edge,
+      ),
+    }
+
+    const components = findConnectedComponents(graph)
+
+    expect(components).toHaveLength(2)
+    expect(components[1].sort()).toEqual(["11", "12"])
+    expect(components.flat()).not.toContain("13")
+  })
+
+  it("treats isolated nodes as their own components", () => {
+    const graph: Graph = {
+      nodes: [
+        { id: "a", label: "A", x: 0, y: 0, type: "hub" },
+        { id: "b", label: "B", x: 10, y: 0, type: "city" },
+      ],
+      edges: [],
+    }
+
+    expect(findConnectedComponents(graph)).toEqual([["a"], ["b"]])
+    expect(findConnectedComponents({ nodes: [], edges: [] })).toEqual([])
+  })
+})
@@ -0,0 +1,33 @@
+import { buildAdjacencyList, getActiveNodes } from "./adjacency"
+import type { Graph } from "./types"
+
+// Split the active nodes into connected components, in order of each component's first node
+export function findConnectedComponents(graph: Graph): string[][] {
+  const adjList = buildAdjacencyList(graph)
+  const seen = new Set<string>()
+  const components: string[][] = []
+
+  getActiveNodes(graph).forEach((node) => {
+    if (seen.has(node.id)) return
+
+    const component: string[] = []
+    const queue: string[] = [node.id]
+    seen.add(node.id)
+
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      component.push(current)
+
+      for (const { node: neighbor } of adjList[current]) {
+        if (!seen.has(neighbor)) {
+          seen.add(neighbor)
+          queue.push(neighbor)
+        }
+      }
+    }
+
+    components.push(component)
+  })
+
+  return components
+}
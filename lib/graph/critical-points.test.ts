@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest"
+import { findCriticalPoints } from "./critical-points"
+import { initialGraph } from "./initial-graph"
+import type { Graph } from "./types"
+
+const pairs = (edges: { source: string; target: string }[]) =>
+  edges.map((edge) => [edge.source, edge.target].sort().join("-")).sort()
+
+describe("findCriticalPoints", () => {
+  it("finds the bridges and articulation points of the sample network", () => {
+    const result = findCriticalPoints(initialGraph)
+
+    // Only the Mandaue loop (3-4-7-5) is redundant
+    expect(pairs(result.bridges)).toEqual(
+      ["1-11", "1-2", "11-12", "12-13", "2-3", "2-8", "5-6", "8-9", "10-8"].sort(),
+    )
+    expect(result.articulationPoints.sort()).toEqual(["1", "11", "12", "2", "3", "5", "8"].sort())
+  })
+
+  it("ignores failed links", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      edges: initialGraph.edges.map((edge) =>
+        edge.source === "4" && edge.target === "7" ? { ...edge, isActive: false } : edge,
+      ),
+    }
+
+    const result = findCriticalPoints(graph)
+
+    expect(pairs(result.bridges)).toContain("3-4")
+    expect(pairs(result.bridges)).toContain("5-7")
+  })
+
+  it("treats a failed site and its links as removed", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      nodes: initialGraph.nodes.map((node) => (node.id === "1" ? { ...node, isFailed: true } : node)),
+    }
+
+    const result = findCriticalPoints(graph)
+
+    expect(result.trace[1]).toEqual({ type: "visit", node: "2", discovery: 1 })
+    expect(result.articulationPoints).not.toContain("1")
+    expect(pairs(result.bridges)).not.toContain("1-11")
+  })
+
+  it("analyzes every component after the network splits", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      edges: initialGraph.edges.map((edge) =>
+        edge.source === "1" && edge.target === "11" ? { ...edge, isActive: false } : edge,
+      ),
+    }
+
+    const result = findCriticalPoints(graph)
+
+    expect(result.components).toHaveLength(2)
+    expect(result.components[1]).toEqual(["11", "12", "13"])
+    expect(pairs(result.bridges)).toEqual(expect.arrayContaining(["11-12", "12-13"]))
+    expect(result.articulationPoints).toContain("12")
+  })
+
+  it("returns nothing for an empty graph", () => {
+    expect(findCriticalPoints({ nodes: [], edges: [] })).toEqual({
+      bridges: [],
+      articulationPoints: [],
+      components: [],
+      trace: [],
+    })
+  })
+
+  it("treats isolated nodes as single-node trees", () => {
+    const graph: Graph = {
+      nodes: [
+        { id: "a", label: "A", x: 0, y: 0, type: "hub" },
+        { id: "b", label: "B", x: 10, y: 0, type: "city" },
+      ],
+      edges: [],
+    }
+
+    const result = findCriticalPoints(graph)
+
+    expect(result.bridges).toEqual([])
+    expect(result.articulationPoints).toEqual([])
+    expect(result.components).toEqual([["a"], ["b"]])
+    expect(result.trace).toEqual([
+      { type: "dfs-root", node: "a", component: 1 },
+      { type: "visit", node: "a", discovery: 1 },
+      { type: "finish", node: "a" },
+      { type: "dfs-root", node: "b", component: 2 },
+      { type: "visit", node: "b", discovery: 2 },
+      { type: "finish", node: "b" },
+    ])
+  })
+
+  it("does not report parallel links as bridges", () => {
+    const graph: Graph = {
+      nodes: [
+        { id: "a", label: "A", x: 0, y: 0, type: "hub" },
+        { id: "b", label: "B", x: 10, y: 0, type: "city" },
+        { id: "c", label: "C", x: 20, y: 0, type: "barangay" },
+      ],
+      edges: [
+        { source: "a", target: "b", isActive: true },
+        { source: "b", target: "a", isActive: true },
+        { source: "b", target: "c", isActive: true },
+      ],
+    }
+
+    const result = findCriticalPoints(graph)
+
+    expect(pairs(result.bridges)).toEqual(["b-c"])
+    expect(result.articulationPoints).toEqual(["b"])
+  })
+
+  it("records a trace of the traversal", () => {
+    const { trace } = findCriticalPoints(initialGraph)
+
+    expect(trace[0]).toEqual({ type: "dfs-root", node: "1", component: 1 })
+    expect(trace[1]).toEqual({ type: "visit", node: "1", discovery: 1 })
+    expect(trace[trace.length - 1]).toEqual({ type: "finish", node: "1" })
+    expect(trace).toContainEqual({ type: "bridge", source: "12", target: "13" })
+    expect(trace).toContainEqual({ type: "articulation-point", node: "1", isRoot: true })
+    // Closing the Mandaue loop through Baco lowers Subangdaku's low-link to Mandaue Hub's discovery time
+    expect(trace).toContainEqual({ type: "low-link", node: "5", low: 3, via: "3" })
+  })
+})
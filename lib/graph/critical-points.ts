@@ -0,0 +1,94 @@
+import { buildAdjacencyList, getActiveNodes } from "./adjacency"
+import type { CriticalPointsResult, Edge, Graph, TraceEvent } from "./types"
+
+// Find bridges and articulation points with Tarjan's low-link DFS over every connected component
+export function findCriticalPoints(graph: Graph): CriticalPointsResult {
+  const trace: TraceEvent[] = []
+  const bridges: Edge[] = []
+  const articulationPoints: Set<string> = new Set()
+  const activeNodes = getActiveNodes(graph)
+
+  if (activeNodes.length === 0) {
+    return { bridges, articulationPoints: [], components: [], trace }
+  }
+
+  const adjList = buildAdjacencyList(graph)
+  const visited: Record<string, boolean> = {}
+  const discoveryTime: Record<string, number> = {}
+  const lowTime: Record<string, number> = {}
+  let time = 0
+  const components: string[][] = []
+  let currentComponent: string[] = []
+
+  // parentEdge is the index of the edge used to reach u, so a parallel link back to the parent counts as a back edge
+  const dfsVisit = (u: string, parentEdge: number | null) => {
+    visited[u] = true
+    currentComponent.push(u)
+    time += 1
+    discoveryTime[u] = time
+    lowTime[u] = time
+
+    trace.push({ type: "visit", node: u, discovery: time })
+    let childCount = 0
+    const isRoot = parentEdge === null
+
+    for (const { node: v, edge } of adjList[u]) {
+      if (edge === parentEdge) continue
+
+      if (!visited[v]) {
+        childCount++
+        trace.push({ type: "explore", from: u, to: v })
+
+        dfsVisit(v, edge)
+
+        if (lowTime[v] < lowTime[u]) {
+          lowTime[u] = lowTime[v]
+          trace.push({ type: "low-link", node: u, low: lowTime[u], via: v })
+        }
+
+        // Check for articulation point
+        if (!isRoot && lowTime[v] >= discoveryTime[u] && !articulationPoints.has(u)) {
+          trace.push({ type: "articulation-point", node: u, isRoot: false })
+          articulationPoints.add(u)
+        }
+
+        // Check for bridge
+        if (lowTime[v] > discoveryTime[u]) {
+          trace.push({ type: "bridge", source: u, target: v })
+          bridges.push(graph.edges[edge])
+        }
+      } else {
+        trace.push({ type: "back-edge", from: u, to: v })
+        if (discoveryTime[v] < lowTime[u]) {
+          lowTime[u] = discoveryTime[v]
+          trace.push({ type: "low-link", node: u, low: lowTime[u], via: v })
+        }
+      }
+    }
+
+    // Special case for root
+    if (isRoot && childCount > 1) {
+      trace.push({ type: "articulation-point", node: u, isRoot: true })
+      articulationPoints.add(u)
+    }
+
+    trace.push({ type: "finish", node: u })
+  }
+
+  // Run a DFS forest so every connected component is analyzed, not just the first one
+  activeNodes.forEach((node) => {
+    if (visited[node.id]) return
+
+    trace.push({ type: "dfs-root", node: node.id, component: components.length + 1 })
+    currentComponent = []
+    dfsVisit(node.id, null)
+    components.push(currentComponent)
+  })
+
+  return {
+    bridges,
+    articulationPoints: graph.nodes.filter((node) => articulationPoints.has(node.id)).map((node) => node.id),
+    components,
+    trace,
+  }
+}
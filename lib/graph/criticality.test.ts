@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { rankCriticality } from "./criticality"
+import type { Graph, Node } from "./types"
+
+const site = (id: string, type: Node["type"], population?: number): Node => ({
+  id,
+  x: 0,
+  y: 0,
+  label: id,
+  type,
+  population,
+})
+
+// A ring through the hub with a spur hanging off "a"
+const graph: Graph = {
+  nodes: [
+    site("h", "hub"),
+    site("a", "city", 100),
+    site("b", "barangay", 10),
+    site("c", "barangay", 5),
+    site("e", "barangay", 20),
+  ],
+  edges: [
+    { source: "h", target: "a", isActive: true },
+    { source: "a", target: "b", isActive: true },
+    { source: "b", target: "c", isActive: true },
+    { source: "c", target: "h", isActive: true },
+    { source: "a", target: "e", isActive: true },
+  ],
+}
+
+const find = (elements: ReturnType<typeof rankCriticality>["elements"], kind: "link" | "site", key: number | string) =>
+  elements.find((element) => (element.kind === "link" ? element.edge : element.node) === key && element.kind === kind)
+
+describe("rankCriticality", () => {
+  it("measures the average hops to a hub before anything is removed", () => {
+    expect(rankCriticality(graph).averageHops).toBe(1.5)
+  })
+
+  it("counts the sites and people a lost link cuts off", () => {
+    const { elements } = rankCriticality(graph)
+    expect(find(elements, "link", 4)).toEqual({
+      kind: "link",
+      edge: 4,
+      disconnected: 1,
+      populationLost: 20,
+      hopIncrease: 0,
+    })
+  })
+
+  it("measures the longer routes when a ring link is lost", () => {
+    const { elements } = rankCriticality(graph)
+    // "a" and "e" go the long way round, two hops further each; "b" and "c" are unaffected
+    expect(find(elements, "link", 0)).toMatchObject({ disconnected: 0, populationLost: 0, hopIncrease: 1 })
+  })
+
+  it("counts a lost site along with the sites behind it", () => {
+    const { elements } = rankCriticality(graph)
+    expect(find(elements, "site", "a")).toMatchObject({ disconnected: 2, populationLost: 120, hopIncrease: 0 })
+    expect(find(elements, "site", "h")).toMatchObject({ disconnected: 5, populationLost: 135 })
+  })
+
+  it("skips links and sites that are already down", () => {
+    const damaged: Graph = {
+      nodes: graph.nodes.map((node) => (node.id === "e" ? { ...node, isFailed: true } : node)),
+      edges: graph.edges.map((edge, idx) => (idx === 2 ? { ...edge, isActive: false } : edge)),
+    }
+
+    const { elements } = rankCriticality(damaged)
+    expect(elements.flatMap((element) => (element.kind === "link" ? [element.edge] : []))).toEqual([0, 1, 3])
+    expect(find(elements, "site", "e")).toBeUndefined()
+    // Losing "a" now cuts off "b" as well, but "e" was already counted before
+    expect(find(elements, "site", "a")).toMatchObject({ disconnected: 2, populationLost: 110 })
+  })
+})
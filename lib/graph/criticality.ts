@@ -0,0 +1,58 @@
+import { buildAdjacencyList } from "./adjacency"
+import { measureOutageImpact } from "./impact"
+import type { CriticalElement, CriticalityResult, Graph } from "./types"
+
+// Hops from every city and barangay that can reach a working hub to the nearest one
+const hopsToHubs = (graph: Graph): Map<string, number> => {
+  const adjList = buildAdjacencyList(graph)
+  const queue = graph.nodes.filter((node) => node.type === "hub" && adjList[node.id]).map((node) => node.id)
+  const hops = new Map(queue.map((id) => [id, 0]))
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const { node: neighbor } of adjList[current]) {
+      if (hops.has(neighbor)) continue
+      hops.set(neighbor, hops.get(current)! + 1)
+      queue.push(neighbor)
+    }
+  }
+
+  graph.nodes.forEach((node) => {
+    if (node.type === "hub") hops.delete(node.id)
+  })
+  return hops
+}
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((total, value) => total + value, 0) / values.length
+
+// Take each working link and each working site out in turn and measure the damage: sites and people newly cut
+// off from every hub, and how much longer the remaining sites' routes to a hub become
+export function rankCriticality(graph: Graph): CriticalityResult {
+  const before = measureOutageImpact(graph)
+  const hopsBefore = hopsToHubs(graph)
+
+  const measure = (damaged: Graph) => {
+    const after = measureOutageImpact(damaged)
+    const hopsAfter = hopsToHubs(damaged)
+    return {
+      disconnected: after.sites - before.sites,
+      populationLost: after.population - before.population,
+      hopIncrease: average(Array.from(hopsAfter, ([id, hops]) => hops - (hopsBefore.get(id) ?? hops))),
+    }
+  }
+
+  const working = new Set(graph.nodes.filter((node) => !node.isFailed).map((node) => node.id))
+  const links = graph.edges.flatMap((edge, index): CriticalElement[] => {
+    if (!edge.isActive || !working.has(edge.source) || !working.has(edge.target)) return []
+    const damaged = { ...graph, edges: graph.edges.map((e, idx) => (idx === index ? { ...e, isActive: false } : e)) }
+    return [{ kind: "link", edge: index, ...measure(damaged) }]
+  })
+  const sites = graph.nodes.flatMap((node): CriticalElement[] => {
+    if (node.isFailed) return []
+    const damaged = { ...graph, nodes: graph.nodes.map((n) => (n.id === node.id ? { ...n, isFailed: true } : n)) }
+    return [{ kind: "site", node: node.id, ...measure(damaged) }]
+  })
+
+  return { averageHops: average(Array.from(hopsBefore.values())), elements: [...links, ...sites] }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { decomposeNetwork, findBiconnectedComponents, findTwoEdgeConnectedComponents } from "./decomposition"
+import { initialGraph } from "./initial-graph"
+import type { Graph } from "./types"
+
+const sorted = (groups: string[][]) => groups.map((group) => [...group].sort()).sort()
+
+// Two triangles sharing node c, plus a pendant d hanging off c
+const bowtie: Graph = {
+  nodes: ["a", "b", "c", "d", "e", "f"].map((id, index) => ({ id, label: id, x: index * 10, y: 0, type: "city" })),
+  edges: [
+    { source: "a", target: "b", isActive: true },
+    { source: "b", target: "c", isActive: true },
+    { source: "c", target: "a", isActive: true },
+    { source: "c", target: "e", isActive: true },
+    { source: "e", target: "f", isActive: true },
+    { source: "f", target: "c", isActive: true },
+    { source: "c", target: "d", isActive: true },
+  ],
+}
+
+describe("findBiconnectedComponents", () => {
+  it("splits the sample network into the Mandaue loop and single-link blocks", () => {
+    const blocks = findBiconnectedComponents(initialGraph)
+
+    expect(blocks).toHaveLength(10)
+    expect(sorted(blocks.map((block) => block.nodes))).toContainEqual(["3", "4", "5", "7"])
+    expect(blocks.every((block) => block.nodes.length === 2 || block.nodes.length === 4)).toBe(true)
+  })
+
+  it("separates blocks at a shared cut vertex", () => {
+    const blocks = findBiconnectedComponents(bowtie)
+
+    expect(sorted(blocks.map((block) => block.nodes))).toEqual([
+      ["a", "b", "c"],
+      ["c", "d"],
+      ["c", "e", "f"],
+    ])
+    expect(blocks.flatMap((block) => block.edges).sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6])
+  })
+
+  it("keeps parallel links in one block and isolated nodes on their own", () => {
+    const graph: Graph = {
+      nodes: bowtie.nodes.slice(0, 3),
+      edges: [
+        { source: "a", target: "b", isActive: true },
+        { source: "b", target: "a", isActive: true },
+      ],
+    }
+
+    expect(findBiconnectedComponents(graph)).toEqual([
+      { nodes: ["a", "b"], edges: [0, 1] },
+      { nodes: ["c"], edges: [] },
+    ])
+  })
+})
+
+describe("findTwoEdgeConnectedComponents", () => {
+  it("merges blocks that only share a node", () => {
+    expect(sorted(findTwoEdgeConnectedComponents(bowtie))).toEqual([["a", "b", "c", "e", "f"], ["d"]])
+  })
+
+  it("isolates every node cut off by bridges in the sample network", () => {
+    const components = findTwoEdgeConnectedComponents(initialGraph)
+
+    expect(components).toHaveLength(10)
+    expect(sorted(components)).toContainEqual(["3", "4", "5", "7"])
+  })
+})
+
+describe("decomposeNetwork", () => {
+  it("builds the block-cut tree", () => {
+    const { blocks, blockCutTree } = decomposeNetwork(bowtie)
+
+    expect(blockCutTree.cutVertices).toEqual(["c"])
+    expect(blockCutTree.links).toHaveLength(blocks.length)
+  })
+
+  it("handles an empty graph", () => {
+    expect(decomposeNetwork({ nodes: [], edges: [] })).toEqual({
+      blocks: [],
+      twoEdgeComponents: [],
+      blockCutTree: { cutVertices: [], links: [] },
+      trace: [],
+    })
+  })
+})
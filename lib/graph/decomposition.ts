@@ -0,0 +1,126 @@
+import { buildAdjacencyList, getActiveNodes } from "./adjacency"
+import { findCriticalPoints } from "./critical-points"
+import type { Block, BlockCutTree, DecompositionResult, Graph, TraceEvent } from "./types"
+
+// Split the network into blocks (biconnected components) with Tarjan's edge-stack DFS.
+// Isolated nodes form single-node blocks with no edges.
+export function findBiconnectedComponents(graph: Graph): Block[] {
+  const adjList = buildAdjacencyList(graph)
+  const discoveryTime: Record<string, number> = {}
+  const lowTime: Record<string, number> = {}
+  const edgeStack: number[] = []
+  const blocks: Block[] = []
+  let time = 0
+
+  // Pop edges down to and including the tree edge that opened this block
+  const popBlock = (untilEdge: number) => {
+    const edges: number[] = []
+    const nodes = new Set<string>()
+    let edgeIndex: number | undefined
+
+    do {
+      edgeIndex = edgeStack.pop()!
+      edges.push(edgeIndex)
+      nodes.add(graph.edges[edgeIndex].source)
+      nodes.add(graph.edges[edgeIndex].target)
+    } while (edgeIndex !== untilEdge)
+
+    blocks.push({
+      nodes: graph.nodes.filter((node) => nodes.has(node.id)).map((node) => node.id),
+      edges: edges.sort((a, b) => a - b),
+    })
+  }
+
+  const dfsVisit = (u: string, parentEdge: number | null) => {
+    time += 1
+    discoveryTime[u] = time
+    lowTime[u] = time
+
+    for (const { node: v, edge } of adjList[u]) {
+      if (edge === parentEdge) continue
+
+      if (discoveryTime[v] === undefined) {
+        edgeStack.push(edge)
+        dfsVisit(v, edge)
+        lowTime[u] = Math.min(lowTime[u], lowTime[v])
+
+        // u separates v's subtree from the rest, so everything above this edge is one block
+        if (lowTime[v] >= discoveryTime[u]) popBlock(edge)
+      } else if (discoveryTime[v] < discoveryTime[u]) {
+        // Back edge to an ancestor, pushed once from the deeper end
+        edgeStack.push(edge)
+        lowTime[u] = Math.min(lowTime[u], discoveryTime[v])
+      }
+    }
+  }
+
+  getActiveNodes(graph).forEach((node) => {
+    if (discoveryTime[node.id] !== undefined) return
+
+    dfsVisit(node.id, null)
+    if (adjList[node.id].length === 0) blocks.push({ nodes: [node.id], edges: [] })
+  })
+
+  return blocks
+}
+
+// Split the network into 2-edge-connected components: what stays connected after removing every bridge
+export function findTwoEdgeConnectedComponents(graph: Graph): string[][] {
+  const adjList = buildAdjacencyList(graph)
+  const bridges = new Set(findCriticalPoints(graph).bridges.map((bridge) => graph.edges.indexOf(bridge)))
+  const seen = new Set<string>()
+  const components: string[][] = []
+
+  getActiveNodes(graph).forEach((node) => {
+    if (seen.has(node.id)) return
+
+    const component: string[] = []
+    const queue: string[] = [node.id]
+    seen.add(node.id)
+
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      component.push(current)
+
+      for (const { node: neighbor, edge } of adjList[current]) {
+        if (bridges.has(edge) || seen.has(neighbor)) continue
+        seen.add(neighbor)
+        queue.push(neighbor)
+      }
+    }
+
+    components.push(component)
+  })
+
+  return components
+}
+
+// Connect each articulation point to the blocks it belongs to
+export function buildBlockCutTree(blocks: Block[]): BlockCutTree {
+  const membership: Record<string, number[]> = {}
+  blocks.forEach((block, index) => {
+    block.nodes.forEach((id) => {
+      membership[id] = [...(membership[id] ?? []), index]
+    })
+  })
+
+  // A node in more than one block is a cut vertex
+  const cutVertices = Object.keys(membership).filter((id) => membership[id].length > 1)
+  const links = cutVertices.flatMap((cutVertex) => membership[cutVertex].map((block) => ({ block, cutVertex })))
+
+  return { cutVertices, links }
+}
+
+// Decompose the network into its resilient islands
+export function decomposeNetwork(graph: Graph): DecompositionResult {
+  const blocks = findBiconnectedComponents(graph)
+  const twoEdgeComponents = findTwoEdgeConnectedComponents(graph)
+  const blockCutTree = buildBlockCutTree(blocks)
+
+  const trace: TraceEvent[] = [
+    ...blocks.map((block, index): TraceEvent => ({ type: "block", index: index + 1, nodes: block.nodes })),
+    ...twoEdgeComponents.map((nodes, index): TraceEvent => ({ type: "two-edge-component", index: index + 1, nodes })),
+  ]
+
+  return { blocks, twoEdgeComponents, blockCutTree, trace }
+}
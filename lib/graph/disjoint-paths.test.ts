@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest"
+import { findDisjointPaths } from "./disjoint-paths"
+import { initialGraph } from "./initial-graph"
+import type { Graph } from "./types"
+
+const buildGraph = (links: [string, string][]): Graph => {
+  const ids = Array.from(new Set(links.flat()))
+  return {
+    nodes: ids.map((id, idx) => ({ id, label: id.toUpperCase(), x: idx * 10, y: 0, type: "city" })),
+    edges: links.map(([source, target]) => ({ source, target, isActive: true })),
+  }
+}
+
+// The shortest path s-a-b-t blocks every second path, so it has to be rerouted
+const trap = buildGraph([
+  ["s", "a"],
+  ["a", "b"],
+  ["b", "t"],
+  ["a", "d"],
+  ["d", "e"],
+  ["e", "t"],
+  ["s", "c"],
+  ["c", "f"],
+  ["f", "b"],
+])
+
+// Two routes that meet at m
+const bowtie = buildGraph([
+  ["s", "a"],
+  ["a", "m"],
+  ["s", "b"],
+  ["b", "m"],
+  ["m", "c"],
+  ["c", "t"],
+  ["m", "d"],
+  ["d", "t"],
+])
+
+describe("findDisjointPaths", () => {
+  it("finds both sides of a ring", () => {
+    const { paths, links, cutLinks, cutSites } = findDisjointPaths(initialGraph, "3", "7")
+
+    expect(paths).toEqual([
+      ["3", "4", "7"],
+      ["3", "5", "7"],
+    ])
+    expect(links).toEqual([
+      [4, 6],
+      [5, 8],
+    ])
+    expect(cutLinks).toEqual([])
+    expect(cutSites).toEqual([])
+  })
+
+  it("reroutes the shortest path when it blocks the backup", () => {
+    const { paths } = findDisjointPaths(trap, "s", "t")
+
+    expect(paths).toEqual([
+      ["s", "a", "d", "e", "t"],
+      ["s", "c", "f", "b", "t"],
+    ])
+  })
+
+  it("names the bridge that rules out a backup", () => {
+    const { paths, cutLinks } = findDisjointPaths(initialGraph, "1", "6")
+
+    expect(paths).toEqual([["1", "2", "3", "5", "6"]])
+    expect(cutLinks).toEqual([0])
+  })
+
+  it("lets edge-disjoint paths share a site but not node-disjoint ones", () => {
+    const edge = findDisjointPaths(bowtie, "s", "t")
+    expect(edge.paths).toHaveLength(2)
+    expect(edge.paths.every((path) => path.includes("m"))).toBe(true)
+
+    const node = findDisjointPaths(bowtie, "s", "t", { mode: "node" })
+    expect(node.mode).toBe("node")
+    expect(node.paths).toHaveLength(1)
+    expect(node.cutSites).toEqual(["m"])
+    expect(node.cutLinks).toEqual([])
+  })
+
+  it("finds more than two paths when asked", () => {
+    const graph = buildGraph([
+      ["s", "a"],
+      ["a", "t"],
+      ["s", "b"],
+      ["b", "t"],
+      ["s", "c"],
+      ["c", "t"],
+    ])
+
+    expect(findDisjointPaths(graph, "s", "t", { mode: "node", k: 3 }).paths).toHaveLength(3)
+    expect(findDisjointPaths(graph, "s", "t", { k: 4 }).cutLinks).toEqual([0, 2, 4])
+  })
+
+  it("skips failed links and sites", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      nodes: initialGraph.nodes.map((node) => (node.id === "4" ? { ...node, isFailed: true } : node)),
+    }
+
+    const { paths, cutSites } = findDisjointPaths(graph, "3", "7", { mode: "node" })
+    expect(paths).toEqual([["3", "5", "7"]])
+    expect(cutSites).toEqual(["5"])
+  })
+
+  it("returns nothing when the sites are not connected", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      edges: initialGraph.edges.map((edge, idx) => (idx === 3 ? { ...edge, isActive: false } : edge)),
+    }
+
+    expect(findDisjointPaths(graph, "1", "9")).toEqual({
+      mode: "edge",
+      paths: [],
+      links: [],
+      cutLinks: [],
+      cutSites: [],
+    })
+    expect(findDisjointPaths(initialGraph, "1", "missing").paths).toEqual([])
+  })
+})
@@ -0,0 +1,139 @@
+import { buildAdjacencyList } from "./adjacency"
+import type { DisjointMode, DisjointPathsResult, Graph } from "./types"
+
+type DisjointPathsOptions = {
+  mode?: DisjointMode
+  k?: number
+}
+
+// Arc of the residual network; `edge` is the link it stands for, or null for the arc through a split site
+type Arc = {
+  from: string
+  to: string
+  capacity: number
+  cost: number
+  flow: number
+  edge: number | null
+  reverse: number
+}
+
+// Find up to k paths between two sites that share no links, or no sites between the ends, with the fewest total hops.
+// As in Suurballe's algorithm, each new path is the shortest one in the residual network, where links used by
+// earlier paths can be walked backwards at negative cost so those paths get rerouted around the new one.
+// For node-disjoint paths every intermediate site is split into an entry and an exit joined by a single-use arc.
+export function findDisjointPaths(
+  graph: Graph,
+  source: string,
+  target: string,
+  { mode = "edge", k = 2 }: DisjointPathsOptions = {},
+): DisjointPathsResult {
+  const adjList = buildAdjacencyList(graph)
+  const empty: DisjointPathsResult = { mode, paths: [], links: [], cutLinks: [], cutSites: [] }
+  if (!adjList[source] || !adjList[target]) return empty
+  if (source === target) return { ...empty, paths: [[source]], links: [[]] }
+
+  const isSplit = (id: string) => mode === "node" && id !== source && id !== target
+  const entry = (id: string) => (isSplit(id) ? `${id}:in` : id)
+  const exit = (id: string) => (isSplit(id) ? `${id}:out` : id)
+
+  const arcs: Arc[] = []
+  const addArc = (from: string, to: string, cost: number, edge: number | null, capacity = 1) => {
+    arcs.push({ from, to, capacity, cost, flow: 0, edge, reverse: arcs.length + 1 })
+    arcs.push({ from: to, to: from, capacity: 0, cost: -cost, flow: 0, edge, reverse: arcs.length - 1 })
+  }
+
+  Object.keys(adjList).forEach((id) => {
+    if (isSplit(id)) addArc(entry(id), exit(id), 0, null)
+  })
+  // Between split sites the site arcs already keep paths apart, so links there are left unbounded
+  // and the minimum cut, when too few paths exist, is made of sites
+  graph.edges.forEach((edge, index) => {
+    if (!edge.isActive || edge.source === edge.target || !adjList[edge.source] || !adjList[edge.target]) return
+    const capacity = isSplit(edge.source) || isSplit(edge.target) ? k : 1
+    addArc(exit(edge.source), entry(edge.target), 1, index, capacity)
+    addArc(exit(edge.target), entry(edge.source), 1, index, capacity)
+  })
+
+  // Bellman-Ford over the residual network, since rerouting arcs have negative cost
+  const searchResidual = () => {
+    const dist: Record<string, number> = { [source]: 0 }
+    const via: Record<string, number> = {}
+    let changed = true
+    while (changed) {
+      changed = false
+      arcs.forEach((arc, index) => {
+        if (arc.flow >= arc.capacity || dist[arc.from] === undefined) return
+        if (dist[arc.to] === undefined || dist[arc.from] + arc.cost < dist[arc.to]) {
+          dist[arc.to] = dist[arc.from] + arc.cost
+          via[arc.to] = index
+          changed = true
+        }
+      })
+    }
+    return via
+  }
+
+  let found = 0
+  let via = searchResidual()
+  while (found < k && via[target] !== undefined) {
+    for (let current = target; current !== source; current = arcs[via[current]].from) {
+      arcs[via[current]].flow += 1
+      arcs[arcs[via[current]].reverse].flow -= 1
+    }
+    found++
+    via = searchResidual()
+  }
+
+  // Net flow over each link, so a link walked both ways by a rerouted path cancels out
+  const netFlow = graph.edges.map(() => 0)
+  arcs.forEach((arc) => {
+    if (arc.edge === null || arc.capacity === 0 || arc.flow === 0) return
+    netFlow[arc.edge] += arc.from === exit(graph.edges[arc.edge].source) ? 1 : -1
+  })
+  const leaving: Record<string, number[]> = {}
+  netFlow.forEach((flow, index) => {
+    if (flow === 0) return
+    const { source: a, target: b } = graph.edges[index]
+    ;(leaving[flow > 0 ? a : b] ??= []).push(index)
+  })
+
+  // Follow the flow out of the source once per path, cutting out any loop left by a detour
+  const paths: string[][] = []
+  const links: number[][] = []
+  for (let i = 0; i < found; i++) {
+    const path = [source]
+    const pathLinks: number[] = []
+    while (path[path.length - 1] !== target) {
+      const at = path[path.length - 1]
+      const edgeIndex = leaving[at].shift()!
+      const { source: a, target: b } = graph.edges[edgeIndex]
+      const next = a === at ? b : a
+      const seen = path.indexOf(next)
+      if (seen >= 0) {
+        path.splice(seen + 1)
+        pathLinks.splice(seen)
+      } else {
+        path.push(next)
+        pathLinks.push(edgeIndex)
+      }
+    }
+    paths.push(path)
+    links.push(pathLinks)
+  }
+
+  const order = paths.map((_, index) => index).sort((a, b) => paths[a].length - paths[b].length)
+  const result = { ...empty, paths: order.map((index) => paths[index]), links: order.map((index) => links[index]) }
+  if (found === k || found === 0) return result
+
+  // Used arcs leaving the part of the residual network the source still reaches form the minimum cut
+  const reached = new Set([source, ...Object.keys(via)])
+  const cutLinks = new Set<number>()
+  const cutSites = new Set<string>()
+  arcs.forEach((arc) => {
+    if (arc.capacity === 0 || !reached.has(arc.from) || reached.has(arc.to)) return
+    if (arc.edge === null) cutSites.add(arc.from.replace(/:in$/, ""))
+    else cutLinks.add(arc.edge)
+  })
+
+  return { ...result, cutLinks: Array.from(cutLinks).sort((a, b) => a - b), cutSites: Array.from(cutSites) }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { addEdge, addNode, findEdgeAt, nextNodeId, removeEdge, removeNode, updateNode } from "./editing"
+import { initialGraph } from "./initial-graph"
+import { findShortestPath } from "./paths"
+
+describe("topology editing", () => {
+  it("adds nodes with the next free id", () => {
+    expect(nextNodeId(initialGraph)).toBe("14")
+    expect(nextNodeId({ nodes: [], edges: [] })).toBe("1")
+
+    const graph = addNode(initialGraph, { type: "barangay", x: 520, y: 380 })
+
+    expect(graph.nodes[graph.nodes.length - 1]).toEqual({
+      id: "14",
+      label: "New barangay 14",
+      type: "barangay",
+      x: 520,
+      y: 380,
+    })
+    expect(initialGraph.nodes).toHaveLength(13)
+  })
+
+  it("links, renames and moves nodes so analyses see the edited graph", () => {
+    let graph = addNode(initialGraph, { label: "Sariaya", type: "barangay", x: 520, y: 380 })
+    graph = addEdge(graph, "13", "14")
+    graph = updateNode(graph, "14", { label: "Sariaya East", x: 530 })
+
+    expect(graph.nodes.find((node) => node.id === "14")).toMatchObject({ label: "Sariaya East", x: 530, y: 380 })
+    expect(findShortestPath(graph, "11", "14").path).toEqual(["11", "12", "13", "14"])
+  })
+
+  it("ignores self-loops and links to unknown nodes", () => {
+    expect(addEdge(initialGraph, "1", "1")).toBe(initialGraph)
+    expect(addEdge(initialGraph, "1", "99")).toBe(initialGraph)
+  })
+
+  it("removes a node along with its links", () => {
+    const graph = removeNode(initialGraph, "5")
+
+    expect(graph.nodes.map((node) => node.id)).not.toContain("5")
+    expect(graph.edges.some((edge) => edge.source === "5" || edge.target === "5")).toBe(false)
+    expect(graph.edges).toHaveLength(initialGraph.edges.length - 3)
+  })
+
+  it("finds and removes the link under a point", () => {
+    // Midpoint of Cebu Hub (300, 100) - Quezon Hub (400, 180)
+    const index = findEdgeAt(initialGraph, 350, 142, 6)
+
+    expect(index).toBe(1)
+    expect(findEdgeAt(initialGraph, 580, 20, 6)).toBeNull()
+    expect(removeEdge(initialGraph, index!).edges).toHaveLength(initialGraph.edges.length - 1)
+  })
+})
@@ -0,0 +1,75 @@
+import { canvasToLatLng, hasCoordinates, isGeographic } from "./geo"
+import type { Graph, Node, NodeType } from "./types"
+
+// Next free numeric id, matching the ids used by the bundled topology
+export function nextNodeId(graph: Graph): string {
+  const numericIds = graph.nodes.map((node) => Number(node.id)).filter((id) => Number.isInteger(id))
+  let candidate = numericIds.length > 0 ? Math.max(...numericIds) + 1 : 1
+  while (graph.nodes.some((node) => node.id === String(candidate))) candidate++
+  return String(candidate)
+}
+
+// Sites added to a geolocated topology get the lat/long under them, so distances stay in kilometers
+export function addNode(graph: Graph, node: { label?: string; type: NodeType; x: number; y: number }): Graph {
+  const id = nextNodeId(graph)
+  const newNode: Node = { id, label: node.label ?? `New ${node.type} ${id}`, type: node.type, x: node.x, y: node.y }
+  const location = isGeographic(graph) ? canvasToLatLng(graph, node) : null
+  if (location) Object.assign(newNode, location)
+  return { ...graph, nodes: [...graph.nodes, newNode] }
+}
+
+export function updateNode(graph: Graph, id: string, changes: Partial<Omit<Node, "id">>): Graph {
+  return { ...graph, nodes: graph.nodes.map((node) => (node.id === id ? { ...node, ...changes } : node)) }
+}
+
+// Move a site on the canvas; a geolocated site also takes the lat/long under its new position, so distances follow
+export function moveNode(graph: Graph, id: string, position: { x: number; y: number }): Graph {
+  const node = graph.nodes.find((n) => n.id === id)
+  const location = node && hasCoordinates(node) ? canvasToLatLng(graph, position) : null
+  return updateNode(graph, id, { ...position, ...location })
+}
+
+// Remove a node together with every link that touches it
+export function removeNode(graph: Graph, id: string): Graph {
+  return {
+    nodes: graph.nodes.filter((node) => node.id !== id),
+    edges: graph.edges.filter((edge) => edge.source !== id && edge.target !== id),
+  }
+}
+
+// Add a link between two existing, distinct nodes; anything else leaves the graph unchanged
+export function addEdge(graph: Graph, source: string, target: string): Graph {
+  if (source === target) return graph
+  if (!graph.nodes.some((node) => node.id === source) || !graph.nodes.some((node) => node.id === target)) return graph
+  return { ...graph, edges: [...graph.edges, { source, target, isActive: true }] }
+}
+
+export function removeEdge(graph: Graph, edgeIndex: number): Graph {
+  return { ...graph, edges: graph.edges.filter((_, idx) => idx !== edgeIndex) }
+}
+
+// Index of the link closest to a point, if any lies within the tolerance
+export function findEdgeAt(graph: Graph, x: number, y: number, tolerance: number): number | null {
+  let closest: number | null = null
+  let minDistance = tolerance
+
+  graph.edges.forEach((edge, idx) => {
+    const a = graph.nodes.find((node) => node.id === edge.source)
+    const b = graph.nodes.find((node) => node.id === edge.target)
+    if (!a || !b) return
+
+    // Distance from the point to the segment a-b
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSquared = dx * dx + dy * dy
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSquared))
+    const distance = Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy))
+
+    if (distance <= minDistance) {
+      minDistance = distance
+      closest = idx
+    }
+  })
+
+  return closest
+}
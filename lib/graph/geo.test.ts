@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest"
+import { addNode, moveNode } from "./editing"
+import { canvasToLatLng, distanceUnit, haversineKm, nodeDistance, projectToCanvas } from "./geo"
+import { initialGraph } from "./initial-graph"
+import { proposeRecovery } from "./recovery"
+import type { Graph } from "./types"
+import { findWeightedPath } from "./weighted-paths"
+
+const cebu = { lat: 10.3157, lng: 123.8854 }
+const puertoPrincesa = { lat: 9.7392, lng: 118.7353 }
+
+describe("haversineKm", () => {
+  it("measures great-circle distances", () => {
+    expect(haversineKm(cebu, cebu)).toBe(0)
+    // One degree of latitude is about 111 km
+    expect(haversineKm({ lat: 0, lng: 120 }, { lat: 1, lng: 120 })).toBeCloseTo(111.19, 1)
+    expect(haversineKm(cebu, puertoPrincesa)).toBeGreaterThan(560)
+    expect(haversineKm(cebu, puertoPrincesa)).toBeLessThan(570)
+  })
+})
+
+describe("nodeDistance", () => {
+  it("uses kilometers only when both nodes are geolocated", () => {
+    const a = { id: "a", label: "A", x: 0, y: 0, type: "hub" as const, ...cebu }
+    const b = { id: "b", label: "B", x: 30, y: 40, type: "city" as const, ...puertoPrincesa }
+
+    expect(nodeDistance(a, b)).toBeCloseTo(haversineKm(cebu, puertoPrincesa))
+    expect(nodeDistance(a, { ...b, lat: undefined, lng: undefined })).toBe(50)
+    expect(distanceUnit(initialGraph)).toBe("units")
+  })
+})
+
+describe("projectToCanvas", () => {
+  it("fits points inside the padded canvas, north up", () => {
+    const [east, west] = projectToCanvas([cebu, puertoPrincesa])
+
+    expect(east.x).toBe(560)
+    expect(west.x).toBe(40)
+    // Cebu is further north, so it is drawn higher
+    expect(east.y).toBeLessThan(west.y)
+  })
+
+  it("centers a single point", () => {
+    expect(projectToCanvas([cebu])).toEqual([{ x: 300, y: 225 }])
+    expect(projectToCanvas([])).toEqual([])
+  })
+})
+
+describe("canvasToLatLng", () => {
+  const places = [cebu, puertoPrincesa, { lat: 13.9414, lng: 121.6234 }]
+  const located = (points: { lat: number; lng: number }[]): Graph => ({
+    nodes: projectToCanvas(points).map((position, idx) => ({
+      id: String(idx),
+      label: String(idx),
+      type: "city",
+      ...position,
+      ...points[idx],
+    })),
+    edges: [],
+  })
+
+  it("finds the lat/long under a canvas point", () => {
+    const midpoint = { lat: 12, lng: 121 }
+    const [, , , position] = projectToCanvas([...places, midpoint])
+    const location = canvasToLatLng(located(places), position)
+
+    // Canvas positions are rounded to whole pixels, a few kilometers at this scale
+    expect(haversineKm(location!, midpoint)).toBeLessThan(5)
+  })
+
+  it("needs the sites to spread out", () => {
+    expect(canvasToLatLng(located([cebu]), { x: 0, y: 0 })).toBeNull()
+    expect(canvasToLatLng({ nodes: [], edges: [] }, { x: 0, y: 0 })).toBeNull()
+  })
+
+  it("gives sites added to a geolocated topology coordinates", () => {
+    const graph = addNode(located(places), { type: "barangay", x: 300, y: 225 })
+    expect(distanceUnit(graph)).toBe("km")
+  })
+
+  it("moves a dragged site's lat/long along with it", () => {
+    const midpoint = { lat: 12, lng: 121 }
+    const [, , , position] = projectToCanvas([...places, midpoint])
+    const moved = moveNode(located(places), "0", position).nodes[0]
+
+    expect(moved).toMatchObject(position)
+    expect(haversineKm(moved as { lat: number; lng: number }, midpoint)).toBeLessThan(5)
+  })
+
+  it("leaves sites without a location on the canvas only", () => {
+    const graph: Graph = { nodes: [{ id: "a", label: "A", x: 0, y: 0, type: "hub" }], edges: [] }
+    expect(moveNode(graph, "a", { x: 30, y: 40 }).nodes[0]).toEqual({ id: "a", label: "A", x: 30, y: 40, type: "hub" })
+  })
+})
+
+describe("geographic analyses", () => {
+  // Cebu Hub and Puerto Princesa far apart on the map, drawn close together on the canvas
+  const graph: Graph = {
+    nodes: [
+      { id: "1", label: "Cebu Hub", x: 300, y: 100, type: "hub", ...cebu },
+      { id: "2", label: "Mandaue", x: 100, y: 100, type: "city", lat: 10.3236, lng: 123.9223 },
+      { id: "3", label: "Puerto Princesa", x: 310, y: 100, type: "city", ...puertoPrincesa },
+    ],
+    edges: [
+      { source: "1", target: "2", isActive: true },
+      { source: "1", target: "3", isActive: true },
+    ],
+  }
+
+  it("plans recovery in kilometers", () => {
+    const cut: Graph = { ...graph, edges: [graph.edges[1]] }
+    const { proposals } = proposeRecovery(cut)
+
+    expect(proposals).toHaveLength(1)
+    expect(proposals[0].target).toBe("1")
+    expect(proposals[0].distance).toBeCloseTo(haversineKm({ lat: 10.3236, lng: 123.9223 }, cebu))
+  })
+
+  it("weighs paths in kilometers", () => {
+    expect(findWeightedPath(graph, "2", "3", { algorithm: "astar" }).cost).toBeCloseTo(
+      haversineKm({ lat: 10.3236, lng: 123.9223 }, cebu) + haversineKm(cebu, puertoPrincesa),
+    )
+  })
+})
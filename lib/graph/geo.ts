@@ -0,0 +1,107 @@
+import { euclideanDistance } from "./adjacency"
+import type { Graph, Node } from "./types"
+
+const EARTH_RADIUS_KM = 6371
+
+export type GeoNode = Node & { lat: number; lng: number }
+
+export function hasCoordinates(node: Node): node is GeoNode {
+  return node.lat !== undefined && node.lng !== undefined
+}
+
+// Great-circle distance in kilometers using the haversine formula
+export function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(b.lat - a.lat)
+  const dLng = toRadians(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Distance between two nodes: kilometers when both are geolocated, canvas units otherwise
+export function nodeDistance(a: Node, b: Node): number {
+  return hasCoordinates(a) && hasCoordinates(b) ? haversineKm(a, b) : euclideanDistance(a, b)
+}
+
+// Whether every node is geolocated, so distances are in kilometers
+export function isGeographic(graph: Graph): boolean {
+  return graph.nodes.length > 0 && graph.nodes.every(hasCoordinates)
+}
+
+export function distanceUnit(graph: Graph): "km" | "units" {
+  return isGeographic(graph) ? "km" : "units"
+}
+
+// Least-squares line through the points, as [intercept, slope]; null when every x is the same
+const fitLine = (points: [number, number][]): [number, number] | null => {
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length
+  const spread = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0)
+  if (spread === 0) return null
+  const slope = points.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0) / spread
+  return [meanY - slope * meanX, slope]
+}
+
+// Undo projectToCanvas for a point on the canvas, using the geolocated sites to recover the projection.
+// Returns null when the sites do not pin it down, such as a single site or all of them in one spot.
+export function canvasToLatLng(graph: Graph, point: { x: number; y: number }): { lat: number; lng: number } | null {
+  const located = graph.nodes.filter(hasCoordinates)
+  if (located.length === 0) return null
+
+  let lngFit = fitLine(located.map((node) => [node.x, node.lng]))
+  let latFit = fitLine(located.map((node) => [node.y, node.lat]))
+
+  // Sites in a single row or column fix only one axis; the projection scales longitude by the cosine of latitude
+  const meanLat = located.reduce((sum, node) => sum + node.lat, 0) / located.length
+  const lngScale = Math.cos((meanLat * Math.PI) / 180)
+  const anchor = located[0]
+  if (!lngFit && latFit) {
+    const slope = -latFit[1] / lngScale
+    lngFit = [anchor.lng - slope * anchor.x, slope]
+  }
+  if (!latFit && lngFit) {
+    const slope = -lngFit[1] * lngScale
+    latFit = [anchor.lat - slope * anchor.y, slope]
+  }
+  if (!lngFit || !latFit) return null
+
+  const lat = latFit[0] + latFit[1] * point.y
+  const lng = lngFit[0] + lngFit[1] * point.x
+  return { lat: Math.max(-90, Math.min(90, lat)), lng: Math.max(-180, Math.min(180, lng)) }
+}
+
+// Fit lat/long points onto the canvas with an equirectangular projection, keeping the aspect ratio
+export function projectToCanvas(
+  points: { lat: number; lng: number }[],
+  width = 600,
+  height = 450,
+  padding = 40,
+): { x: number; y: number }[] {
+  if (points.length === 0) return []
+
+  // Shrink longitude by the cosine of the mean latitude so distances look right near the equator and away from it
+  const meanLat = points.reduce((sum, point) => sum + point.lat, 0) / points.length
+  const lngScale = Math.cos((meanLat * Math.PI) / 180)
+
+  const xs = points.map((point) => point.lng * lngScale)
+  const ys = points.map((point) => -point.lat)
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  const spanX = Math.max(...xs) - minX
+  const spanY = Math.max(...ys) - minY
+
+  const scale = Math.min(
+    spanX > 0 ? (width - 2 * padding) / spanX : Number.POSITIVE_INFINITY,
+    spanY > 0 ? (height - 2 * padding) / spanY : Number.POSITIVE_INFINITY,
+  )
+  const usableScale = Number.isFinite(scale) ? scale : 0
+
+  // Center the drawing in whichever direction has room to spare
+  const offsetX = (width - spanX * usableScale) / 2
+  const offsetY = (height - spanY * usableScale) / 2
+
+  return points.map((_, idx) => ({
+    x: Math.round(offsetX + (xs[idx] - minX) * usableScale),
+    y: Math.round(offsetY + (ys[idx] - minY) * usableScale),
+  }))
+}
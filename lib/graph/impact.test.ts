@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import { measureOutageImpact } from "./impact"
+import { initialGraph } from "./initial-graph"
+import { proposeRecovery } from "./recovery"
+import { describeTraceEvent } from "./trace"
+import type { Graph } from "./types"
+
+// Palawan's only link to the rest of the network is down, and Tayabas itself has failed
+const damaged: Graph = {
+  nodes: initialGraph.nodes.map((node) => (node.id === "13" ? { ...node, isFailed: true } : node)),
+  edges: initialGraph.edges.map((edge) =>
+    edge.source === "2" && edge.target === "8" ? { ...edge, isActive: false } : edge,
+  ),
+}
+
+describe("measureOutageImpact", () => {
+  it("finds nobody cut off in the intact network", () => {
+    expect(measureOutageImpact(initialGraph)).toMatchObject({ sites: 0, population: 0, households: 0, cutOff: [] })
+  })
+
+  it("counts failed sites but not sites that still reach another hub", () => {
+    const impact = measureOutageImpact(damaged)
+
+    // Palawan keeps its own hub, so only Tayabas is cut off
+    expect(impact.cutOff).toEqual(["13"])
+    expect(impact).toMatchObject({ sites: 1, population: 2500, households: 600 })
+  })
+
+  it("breaks the totals down by site type", () => {
+    const graph: Graph = {
+      ...damaged,
+      nodes: damaged.nodes.map((node) => (node.id === "8" ? { ...node, isFailed: true } : node)),
+    }
+
+    const impact = measureOutageImpact(graph)
+    expect(impact.cutOff).toEqual(["8", "9", "10", "13"])
+    expect(impact.byType).toEqual({
+      hub: { sites: 1, population: 0, households: 0 },
+      city: { sites: 2, population: 357000, households: 82500 },
+      barangay: { sites: 1, population: 2500, households: 600 },
+    })
+    expect(impact.population).toBe(359500)
+  })
+})
+
+describe("recovery impact", () => {
+  it("reports who is cut off before and after the proposed links", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      edges: initialGraph.edges.map((edge) =>
+        edge.source === "1" && edge.target === "2" ? { ...edge, isActive: false } : edge,
+      ),
+      nodes: initialGraph.nodes.map((node) =>
+        node.id === "3" || node.id === "8" ? { ...node, isFailed: true } : node,
+      ),
+    }
+
+    const lines = proposeRecovery(graph)
+      .trace.filter((event) => event.type === "impact")
+      .map((event) => describeTraceEvent(event, (id) => id))
+
+    expect(lines).toEqual([
+      "Cut off from every hub: 9 sites, 1,372,100 people in 324,490 households (hub 0, city 1,370,000, barangay 2,100)",
+      "Still cut off with these links: 2 sites, 0 people in 0 households",
+    ])
+  })
+})
@@ -0,0 +1,27 @@
+import { findHubConnected } from "./paths"
+import type { Graph, ImpactTotals, OutageImpact } from "./types"
+
+const emptyTotals = (): ImpactTotals => ({ sites: 0, population: 0, households: 0 })
+
+// Count the sites, people and households cut off from every working hub, in total and by site type.
+// Failed sites count as cut off; sites without population figures add to the site count only.
+export function measureOutageImpact(graph: Graph): OutageImpact {
+  const connected = findHubConnected(graph)
+  const impact: OutageImpact = {
+    ...emptyTotals(),
+    cutOff: [],
+    byType: { hub: emptyTotals(), city: emptyTotals(), barangay: emptyTotals() },
+  }
+
+  graph.nodes.forEach((node) => {
+    if (connected.has(node.id)) return
+    impact.cutOff.push(node.id)
+    ;[impact, impact.byType[node.type]].forEach((totals) => {
+      totals.sites++
+      totals.population += node.population ?? 0
+      totals.households += node.households ?? 0
+    })
+  })
+
+  return impact
+}
@@ -0,0 +1,24 @@
+export * from "./types"
+export * from "./adjacency"
+export * from "./area"
+export * from "./critical-points"
+export * from "./criticality"
+export * from "./components"
+export * from "./decomposition"
+export * from "./disjoint-paths"
+export * from "./editing"
+export * from "./geo"
+export * from "./impact"
+export * from "./paths"
+export * from "./weighted-paths"
+export * from "./weights"
+export * from "./max-flow"
+export * from "./outages"
+export * from "./recovery"
+export * from "./redundancy"
+export * from "./reliability"
+export * from "./scenarios"
+export * from "./traffic"
+export * from "./playback"
+export * from "./trace"
+export * from "./initial-graph"
@@ -0,0 +1,36 @@
+import type { Graph } from "./types"
+
+// Initial graph representing telecom infrastructure in rural Philippines, with link capacities in Mbps
+// and rough population and household counts for the areas each site serves
+export const initialGraph: Graph = {
+  nodes: [
+    { id: "1", label: "Cebu Hub", x: 300, y: 100, type: "hub" },
+    { id: "2", label: "Cebu City", x: 200, y: 180, type: "city", population: 964000, households: 230000 },
+    { id: "3", label: "Mandaue Hub", x: 150, y: 250, type: "hub" },
+    { id: "4", label: "Banilad", x: 100, y: 320, type: "city", population: 32000, households: 7500 },
+    { id: "5", label: "Subangdaku", x: 200, y: 320, type: "city", population: 17000, households: 4000 },
+    { id: "6", label: "Nau", x: 250, y: 380, type: "barangay", population: 1200, households: 280 },
+    { id: "7", label: "Baco", x: 150, y: 380, type: "barangay", population: 900, households: 210 },
+    { id: "8", label: "Palawan Hub", x: 50, y: 200, type: "hub" },
+    { id: "9", label: "El Nido", x: 30, y: 280, type: "city", population: 50000, households: 11500 },
+    { id: "10", label: "Puerto Princesa", x: 80, y: 350, type: "city", population: 307000, households: 71000 },
+    { id: "11", label: "Quezon Hub", x: 400, y: 180, type: "hub" },
+    { id: "12", label: "Lucena", x: 450, y: 250, type: "city", population: 278000, households: 64000 },
+    { id: "13", label: "Tayabas", x: 500, y: 300, type: "barangay", population: 2500, households: 600 },
+  ],
+  edges: [
+    { source: "1", target: "2", isActive: true, capacity: 1000 },
+    { source: "1", target: "11", isActive: true, capacity: 1000 },
+    { source: "2", target: "3", isActive: true, capacity: 1000 },
+    { source: "2", target: "8", isActive: true, capacity: 400 },
+    { source: "3", target: "4", isActive: true, capacity: 500 },
+    { source: "3", target: "5", isActive: true, capacity: 500 },
+    { source: "4", target: "7", isActive: true, capacity: 100 },
+    { source: "5", target: "6", isActive: true, capacity: 50 },
+    { source: "5", target: "7", isActive: true, capacity: 100 },
+    { source: "8", target: "9", isActive: true, capacity: 200 },
+    { source: "8", target: "10", isActive: true, capacity: 200 },
+    { source: "11", target: "12", isActive: true, capacity: 500 },
+    { source: "12", target: "13", isActive: true, capacity: 100 },
+  ],
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import { initialGraph } from "./initial-graph"
+import { findMaxFlow } from "./max-flow"
+import type { Graph } from "./types"
+
+const pairs = (edges: { source: string; target: string }[]) =>
+  edges.map((edge) => [edge.source, edge.target].sort().join("-")).sort()
+
+describe("findMaxFlow", () => {
+  it("limits bandwidth to Nau by its last-mile link", () => {
+    const result = findMaxFlow(initialGraph, "1", "6")
+
+    expect(result.maxFlow).toBe(50)
+    expect(pairs(result.minCut)).toEqual(["5-6"])
+  })
+
+  it("combines both routes around the Mandaue loop", () => {
+    const result = findMaxFlow(initialGraph, "3", "7")
+
+    expect(result.maxFlow).toBe(200)
+    expect(pairs(result.minCut)).toEqual(["4-7", "5-7"])
+    expect(result.sourceSide).toContain("3")
+    expect(result.sourceSide).not.toContain("7")
+  })
+
+  it("respects flow conservation and capacities", () => {
+    const result = findMaxFlow(initialGraph, "2", "7")
+
+    initialGraph.edges.forEach((edge, index) => {
+      expect(Math.abs(result.flows[index])).toBeLessThanOrEqual(edge.capacity!)
+    })
+    const net = (id: string) =>
+      initialGraph.edges.reduce(
+        (sum, edge, index) =>
+          sum + (edge.source === id ? result.flows[index] : edge.target === id ? -result.flows[index] : 0),
+        0,
+      )
+    expect(net("2")).toBe(result.maxFlow)
+    expect(net("3")).toBe(0)
+    expect(net("7")).toBe(-result.maxFlow)
+  })
+
+  it("adds up parallel links and uses the default capacity", () => {
+    const graph: Graph = {
+      nodes: [
+        { id: "a", label: "A", x: 0, y: 0, type: "hub" },
+        { id: "b", label: "B", x: 10, y: 0, type: "barangay" },
+      ],
+      edges: [
+        { source: "a", target: "b", isActive: true, capacity: 30 },
+        { source: "b", target: "a", isActive: true },
+        { source: "a", target: "b", isActive: false, capacity: 500 },
+      ],
+    }
+
+    const result = findMaxFlow(graph, "a", "b")
+
+    expect(result.maxFlow).toBe(130)
+    expect(result.minCut).toHaveLength(2)
+  })
+
+  it("returns zero flow when the target is cut off", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      edges: initialGraph.edges.map((edge) => (edge.target === "13" ? { ...edge, isActive: false } : edge)),
+    }
+
+    const result = findMaxFlow(graph, "1", "13")
+
+    expect(result.maxFlow).toBe(0)
+    expect(result.minCut).toEqual([])
+  })
+})
@@ -0,0 +1,101 @@
+import { buildAdjacencyList } from "./adjacency"
+import type { Edge, Graph, MaxFlowResult, TraceEvent } from "./types"
+
+// Capacity assumed for links that do not specify one, in Mbps
+export const DEFAULT_LINK_CAPACITY = 100
+
+export function getEdgeCapacity(edge: Edge): number {
+  return edge.capacity ?? DEFAULT_LINK_CAPACITY
+}
+
+// Compute the maximum bandwidth between two nodes with Edmonds-Karp, plus the minimum cut that limits it.
+// Links are undirected, so each one can carry up to its capacity in either direction.
+export function findMaxFlow(graph: Graph, source: string, target: string): MaxFlowResult {
+  const trace: TraceEvent[] = []
+  const adjList = buildAdjacencyList(graph)
+  const flows = graph.edges.map(() => 0)
+
+  if (!adjList[source] || !adjList[target] || source === target) {
+    trace.push({ type: "max-flow", value: 0 })
+    return { maxFlow: 0, flows, minCut: [], sourceSide: [], trace }
+  }
+
+  // Remaining capacity when pushing flow from u across the given edge
+  const residual = (u: string, edgeIndex: number) => {
+    const edge = graph.edges[edgeIndex]
+    const capacity = getEdgeCapacity(edge)
+    return edge.source === u ? capacity - flows[edgeIndex] : capacity + flows[edgeIndex]
+  }
+
+  // BFS over the residual graph, returning the edge used to reach each node
+  const searchResidual = () => {
+    const via: Record<string, { from: string; edge: number } | null> = { [source]: null }
+    const queue: string[] = [source]
+
+    while (queue.length > 0) {
+      const current = queue.shift()!
+
+      for (const { node: neighbor, edge } of adjList[current]) {
+        if (via[neighbor] !== undefined || residual(current, edge) <= 0) continue
+        via[neighbor] = { from: current, edge }
+        queue.push(neighbor)
+      }
+    }
+
+    return via
+  }
+
+  let maxFlow = 0
+  let via = searchResidual()
+
+  while (via[target] !== undefined) {
+    // Walk back from the target to find the bottleneck of the augmenting path
+    const path: string[] = [target]
+    let amount = Number.POSITIVE_INFINITY
+    let current = target
+
+    while (current !== source) {
+      const step = via[current]!
+      amount = Math.min(amount, residual(step.from, step.edge))
+      current = step.from
+      path.unshift(current)
+    }
+
+    if (!Number.isFinite(amount)) break
+
+    current = target
+    while (current !== source) {
+      const step = via[current]!
+      flows[step.edge] += graph.edges[step.edge].source === step.from ? amount : -amount
+      current = step.from
+    }
+
+    maxFlow += amount
+    trace.push({ type: "augment", path, amount })
+    via = searchResidual()
+  }
+
+  trace.push({ type: "max-flow", value: maxFlow })
+
+  // Nodes still reachable in the residual graph form the source side of the minimum cut
+  const sourceSide = new Set(Object.keys(via))
+  const minCut = graph.edges.filter(
+    (edge) =>
+      edge.isActive &&
+      adjList[edge.source] &&
+      adjList[edge.target] &&
+      sourceSide.has(edge.source) !== sourceSide.has(edge.target),
+  )
+
+  minCut.forEach((edge) => {
+    trace.push({ type: "min-cut", source: edge.source, target: edge.target, capacity: getEdgeCapacity(edge) })
+  })
+
+  return {
+    maxFlow,
+    flows,
+    minCut,
+    sourceSide: graph.nodes.filter((node) => sourceSide.has(node.id)).map((node) => node.id),
+    trace,
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+import { initialGraph } from "./initial-graph"
+import { DEFAULT_MTBF_HOURS, getMtbf, getMttr, linksDownAt, simulateOutages } from "./outages"
+import { createRandom } from "./reliability"
+import type { Graph } from "./types"
+
+// Makes every exponential draw equal its mean, so failures and repairs land at predictable times
+const atMean = () => 1 - Math.exp(-1)
+
+// A hub with three spokes that all fail after 10 hours and take 5 hours to repair
+const star: Graph = {
+  nodes: [
+    { id: "h", label: "Hub", x: 0, y: 0, type: "hub" },
+    { id: "a", label: "A", x: 10, y: 0, type: "city" },
+    { id: "b", label: "B", x: 0, y: 10, type: "city" },
+    { id: "c", label: "C", x: -10, y: 0, type: "barangay" },
+  ],
+  edges: ["a", "b", "c"].map((id) => ({ source: "h", target: id, isActive: true, mtbf: 10, mttr: 5 })),
+}
+
+describe("simulateOutages", () => {
+  it("makes sites wait for a limited repair crew", () => {
+    const result = simulateOutages(star, { duration: 20, crews: 1, random: atMean })
+
+    expect(result.sites.map((site) => [site.node, site.availability, site.downtime, site.outages])).toEqual([
+      ["a", 0.75, 5, 1],
+      ["b", 0.5, 10, 1],
+      ["c", 0.5, 10, 1],
+    ])
+    expect(result.totalDowntime).toBe(25)
+    expect(result.events.slice(0, 4)).toEqual([
+      { time: 10, type: "fail", edge: 0 },
+      { time: 10, type: "repair-start", edge: 0 },
+      { time: 10, type: "fail", edge: 1 },
+      { time: 10, type: "fail", edge: 2 },
+    ])
+  })
+
+  it("leaves links with zero or non-finite MTBF or MTTR up instead of looping forever", () => {
+    const graph: Graph = {
+      ...star,
+      edges: [
+        { ...star.edges[0], mtbf: 0, mttr: 0 },
+        { ...star.edges[1], mttr: 0 },
+        { ...star.edges[2], mtbf: Number.NaN },
+      ],
+    }
+
+    const result = simulateOutages(graph, { duration: 20, random: atMean })
+    expect(result.events).toEqual([])
+    expect(result.totalDowntime).toBe(0)
+  })
+
+  it("repairs in parallel with more crews", () => {
+    const result = simulateOutages(star, { duration: 20, crews: 3, random: atMean })
+
+    expect(result.crews).toBe(3)
+    expect(result.sites.map((site) => site.availability)).toEqual([0.75, 0.75, 0.75])
+  })
+
+  it("replays which links are down at any moment", () => {
+    const result = simulateOutages(star, { duration: 20, crews: 1, random: atMean })
+
+    expect(linksDownAt(result, 5)).toEqual([])
+    expect(linksDownAt(result, 12)).toEqual([0, 1, 2])
+    expect(linksDownAt(result, 16)).toEqual([1, 2])
+  })
+
+  it("keeps redundant sites up while a single link is out", () => {
+    const ring: Graph = {
+      ...star,
+      edges: [
+        ...star.edges.map((edge) => (edge.target === "b" ? { ...edge, mtbf: 1e9 } : edge)),
+        { source: "a", target: "b", isActive: true, mtbf: 1e9 },
+      ],
+    }
+
+    const result = simulateOutages(ring, { duration: 20, crews: 1, random: atMean })
+    expect(result.sites.map((site) => site.downtime)).toEqual([0, 0, 10])
+  })
+
+  it("leaves failed links and sites down for the whole run", () => {
+    const graph: Graph = {
+      nodes: star.nodes.map((node) => (node.id === "c" ? { ...node, isFailed: true } : node)),
+      edges: star.edges.map((edge, idx) => ({ ...edge, mtbf: 1e9, isActive: idx !== 1 })),
+    }
+
+    const result = simulateOutages(graph, { duration: 100, random: atMean })
+    expect(result.events).toEqual([])
+    expect(result.sites).toEqual([
+      { node: "a", availability: 1, downtime: 0, outages: 0 },
+      { node: "b", availability: 0, downtime: 100, outages: 1 },
+    ])
+  })
+
+  it("repeats exactly with the same seed", () => {
+    const first = simulateOutages(initialGraph, { random: createRandom(7) })
+    const second = simulateOutages(initialGraph, { random: createRandom(7) })
+
+    expect(first.events.length).toBeGreaterThan(0)
+    expect(second).toEqual(first)
+  })
+
+  it("falls back to the defaults for links without figures", () => {
+    expect(getMtbf(initialGraph.edges[0])).toBe(DEFAULT_MTBF_HOURS)
+    expect(getMttr({ ...initialGraph.edges[0], mttr: 2 })).toBe(2)
+  })
+})
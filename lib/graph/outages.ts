@@ -0,0 +1,138 @@
+import { getActiveNodes } from "./adjacency"
+import { findHubConnected } from "./paths"
+import type { Edge, Graph, OutageEvent, OutageSimulationResult, SiteAvailability } from "./types"
+
+// Figures for links that do not carry their own, in hours
+export const DEFAULT_MTBF_HOURS = 1000
+export const DEFAULT_MTTR_HOURS = 12
+export const DEFAULT_SIMULATION_HOURS = 720
+
+export function getMtbf(edge: Edge): number {
+  return edge.mtbf ?? DEFAULT_MTBF_HOURS
+}
+
+export function getMttr(edge: Edge): number {
+  return edge.mttr ?? DEFAULT_MTTR_HOURS
+}
+
+// Links need a positive, finite MTBF and MTTR to take part; with zero, every event would land at the same moment
+const hasRepairFigures = (edge: Edge) =>
+  [getMtbf(edge), getMttr(edge)].every((hours) => Number.isFinite(hours) && hours > 0)
+
+type OutageOptions = {
+  duration?: number
+  crews?: number
+  random?: () => number
+}
+
+// Links down at the given moment of a simulation, in edge order
+export function linksDownAt(result: OutageSimulationResult, time: number): number[] {
+  const down = new Set<number>()
+  for (const event of result.events) {
+    if (event.time > time) break
+    if (event.type === "fail") down.add(event.edge)
+    if (event.type === "repair") down.delete(event.edge)
+  }
+  return Array.from(down).sort((a, b) => a - b)
+}
+
+// Discrete-event simulation of link outages. Every working link fails after an exponentially distributed time
+// with mean MTBF; failed links wait in line for one of the repair crews, which take an exponentially distributed
+// time with mean MTTR to fix them. Sites count as down whenever they cannot reach a working hub.
+// Links already down and failed sites stay down for the whole run, and links without usable repair figures stay up.
+export function simulateOutages(
+  graph: Graph,
+  { duration = DEFAULT_SIMULATION_HOURS, crews = 1, random = Math.random }: OutageOptions = {},
+): OutageSimulationResult {
+  const working = new Set(getActiveNodes(graph).map((node) => node.id))
+  const sites = getActiveNodes(graph).filter((node) => node.type !== "hub")
+  const exponential = (mean: number) => -mean * Math.log(1 - random())
+
+  // Future events, kept in time order; ties keep the order they were scheduled in
+  const pending: OutageEvent[] = []
+  const schedule = (event: OutageEvent) => {
+    const at = pending.findIndex((other) => other.time > event.time)
+    pending.splice(at === -1 ? pending.length : at, 0, event)
+  }
+  graph.edges.forEach((edge, index) => {
+    if (!edge.isActive || !working.has(edge.source) || !working.has(edge.target) || !hasRepairFigures(edge)) return
+    schedule({ time: exponential(getMtbf(edge)), type: "fail", edge: index })
+  })
+
+  const events: OutageEvent[] = []
+  const down = new Set<number>()
+  const waiting: number[] = []
+  let idleCrews = Math.max(1, crews)
+
+  const startRepair = (edge: number, time: number) => {
+    events.push({ time, type: "repair-start", edge })
+    schedule({ time: time + exponential(getMttr(graph.edges[edge])), type: "repair", edge })
+  }
+
+  const downtime = sites.map(() => 0)
+  const outages = sites.map(() => 0)
+  const reachesHub = () => {
+    const connected = findHubConnected({
+      ...graph,
+      edges: graph.edges.map((edge, index) => (down.has(index) ? { ...edge, isActive: false } : edge)),
+    })
+    return sites.map((site) => connected.has(site.id))
+  }
+
+  // Add the time since the last event to every site that was cut off during it
+  let lastTime = 0
+  const addDowntime = (until: number) => {
+    connected.forEach((isUp, idx) => {
+      if (!isUp) downtime[idx] += until - lastTime
+    })
+    lastTime = until
+  }
+
+  let connected = reachesHub()
+  connected.forEach((isUp, idx) => {
+    if (!isUp) outages[idx]++
+  })
+
+  while (pending.length > 0 && pending[0].time <= duration) {
+    const event = pending.shift()!
+    addDowntime(event.time)
+    events.push(event)
+
+    if (event.type === "fail") {
+      down.add(event.edge)
+      if (idleCrews > 0) {
+        idleCrews--
+        startRepair(event.edge, event.time)
+      } else {
+        waiting.push(event.edge)
+      }
+    } else {
+      down.delete(event.edge)
+      schedule({ time: event.time + exponential(getMtbf(graph.edges[event.edge])), type: "fail", edge: event.edge })
+      if (waiting.length > 0) startRepair(waiting.shift()!, event.time)
+      else idleCrews++
+    }
+
+    const next = reachesHub()
+    next.forEach((isUp, idx) => {
+      if (connected[idx] && !isUp) outages[idx]++
+    })
+    connected = next
+  }
+  addDowntime(duration)
+
+  const results: SiteAvailability[] = sites.map((site, idx) => ({
+    node: site.id,
+    availability: duration > 0 ? 1 - downtime[idx] / duration : 1,
+    downtime: downtime[idx],
+    outages: outages[idx],
+  }))
+
+  return {
+    duration,
+    crews: Math.max(1, crews),
+    events,
+    sites: results,
+    totalDowntime: downtime.reduce((total, hours) => total + hours, 0),
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+import { initialGraph } from "./initial-graph"
+import { findHubConnected, findReachable, findShortestPath } from "./paths"
+import type { Graph } from "./types"
+
+const withFailedEdge = (graph: Graph, source: string, target: string): Graph => ({
+  ...graph,
+  edges: graph.edges.map((edge) =>
+    edge.source === source && edge.target === target ? { ...edge, isActive: false } : edge,
+  ),
+})
+
+describe("findShortestPath", () => {
+  it("finds the fewest-hop path in the sample network", () => {
+    const { path, trace } = findShortestPath(initialGraph, "13", "6")
+
+    expect(path).toEqual(["13", "12", "11", "1", "2", "3", "5", "6"])
+    expect(trace[0]).toEqual({ type: "bfs-start", node: "13" })
+    expect(trace[trace.length - 1]).toEqual({ type: "path-found", path })
+  })
+
+  it("routes around a failed link", () => {
+    const { path } = findShortestPath(withFailedEdge(initialGraph, "3", "5"), "3", "6")
+
+    expect(path).toEqual(["3", "4", "7", "5", "6"])
+  })
+
+  it("reports when no path exists", () => {
+    const { path, trace } = findShortestPath(withFailedEdge(initialGraph, "2", "8"), "1", "9")
+
+    expect(path).toEqual([])
+    expect(trace[trace.length - 1]).toEqual({ type: "no-path", source: "1", target: "9" })
+  })
+
+  it("avoids failed sites", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      nodes: initialGraph.nodes.map((node) => (node.id === "5" ? { ...node, isFailed: true } : node)),
+    }
+
+    expect(findShortestPath(graph, "3", "7").path).toEqual(["3", "4", "7"])
+    expect(findShortestPath(graph, "3", "6").path).toEqual([])
+    expect(findShortestPath(graph, "5", "3").path).toEqual([])
+  })
+
+  it("returns a single-node path when source and target match", () => {
+    expect(findShortestPath(initialGraph, "4", "4").path).toEqual(["4"])
+  })
+
+  it("handles unknown nodes and empty graphs", () => {
+    expect(findShortestPath({ nodes: [], edges: [] }, "a", "b").path).toEqual([])
+    expect(findShortestPath(initialGraph, "1", "missing").path).toEqual([])
+  })
+})
+
+describe("findReachable", () => {
+  it("reaches every node of the connected sample network", () => {
+    expect(findReachable(initialGraph, "1").size).toBe(initialGraph.nodes.length)
+  })
+
+  it("stops at failed links and isolated nodes", () => {
+    const reachable = findReachable(withFailedEdge(initialGraph, "2", "8"), "8")
+
+    expect(Array.from(reachable).sort()).toEqual(["10", "8", "9"])
+  })
+})
+
+describe("findHubConnected", () => {
+  it("finds the sites that can still reach a working hub", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      nodes: initialGraph.nodes.map((node) => (node.id === "8" ? { ...node, isFailed: true } : node)),
+    }
+
+    const connected = findHubConnected(graph)
+    expect(connected.has("1")).toBe(true)
+    expect(connected.has("13")).toBe(true)
+    expect(Array.from(initialGraph.nodes, (node) => node.id).filter((id) => !connected.has(id))).toEqual([
+      "8",
+      "9",
+      "10",
+    ])
+  })
+})
@@ -0,0 +1,104 @@
+import { buildAdjacencyList } from "./adjacency"
+import type { Graph, ShortestPathResult, TraceEvent } from "./types"
+
+// Find the path with the fewest hops between two nodes using BFS
+export function findShortestPath(graph: Graph, source: string, target: string): ShortestPathResult {
+  const trace: TraceEvent[] = []
+  const adjList = buildAdjacencyList(graph)
+
+  if (!adjList[source] || !adjList[target]) {
+    trace.push({ type: "no-path", source, target })
+    return { path: [], trace }
+  }
+
+  const visited: Record<string, boolean> = {}
+  const queue: string[] = []
+  const prev: Record<string, string | null> = {}
+
+  // Initialize BFS
+  queue.push(source)
+  visited[source] = true
+  prev[source] = null
+
+  trace.push({ type: "bfs-start", node: source })
+
+  // BFS traversal
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    trace.push({ type: "visit", node: current })
+
+    if (current === target) {
+      trace.push({ type: "target-found", node: target })
+      break
+    }
+
+    for (const { node: neighbor } of adjList[current]) {
+      if (!visited[neighbor]) {
+        queue.push(neighbor)
+        visited[neighbor] = true
+        prev[neighbor] = current
+        trace.push({ type: "discover", node: neighbor, from: current })
+      }
+    }
+  }
+
+  if (!visited[target]) {
+    trace.push({ type: "no-path", source, target })
+    return { path: [], trace }
+  }
+
+  // Reconstruct path from the target back to the source
+  const path: string[] = []
+  let current: string | null = target
+
+  while (current !== null) {
+    path.unshift(current)
+    current = prev[current]
+  }
+
+  trace.push({ type: "path-found", path })
+  return { path, trace }
+}
+
+// Collect every node reachable from the source over active edges
+export function findReachable(graph: Graph, source: string): Set<string> {
+  const adjList = buildAdjacencyList(graph)
+  const visited = new Set<string>()
+  if (!adjList[source]) return visited
+
+  const queue: string[] = [source]
+  visited.add(source)
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+
+    for (const { node: neighbor } of adjList[current]) {
+      if (!visited.has(neighbor)) {
+        queue.push(neighbor)
+        visited.add(neighbor)
+      }
+    }
+  }
+
+  return visited
+}
+
+// Find every working site connected to at least one working hub, hubs included
+export function findHubConnected(graph: Graph): Set<string> {
+  const adjList = buildAdjacencyList(graph)
+  const queue = graph.nodes.filter((node) => node.type === "hub" && adjList[node.id]).map((node) => node.id)
+  const visited = new Set<string>(queue)
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+
+    for (const { node: neighbor } of adjList[current]) {
+      if (!visited.has(neighbor)) {
+        queue.push(neighbor)
+        visited.add(neighbor)
+      }
+    }
+  }
+
+  return visited
+}
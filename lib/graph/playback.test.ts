@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { findCriticalPoints } from "./critical-points"
+import { initialGraph } from "./initial-graph"
+import { findShortestPath } from "./paths"
+import { replayTrace } from "./playback"
+import { findWeightedPath } from "./weighted-paths"
+
+describe("replayTrace", () => {
+  it("starts from an empty state", () => {
+    const state = replayTrace(findCriticalPoints(initialGraph).trace, 0)
+
+    expect(state.current).toBeNull()
+    expect(state.visited).toEqual([])
+    expect(state.frontier).toEqual([])
+  })
+
+  it("tracks the DFS stack, discovery and low-link values", () => {
+    const { trace } = findCriticalPoints(initialGraph)
+    const step = trace.findIndex((event) => event.type === "visit" && event.node === "7") + 1
+
+    const state = replayTrace(trace, step)
+
+    expect(state.current).toBe("7")
+    expect(state.frontier).toEqual(["1", "2", "3", "4", "7"])
+    expect(state.discovery).toEqual({ "1": 1, "2": 2, "3": 3, "4": 4, "7": 5 })
+  })
+
+  it("ends with every bridge and articulation point found", () => {
+    const { trace, bridges, articulationPoints } = findCriticalPoints(initialGraph)
+
+    const state = replayTrace(trace, trace.length)
+
+    expect(state.bridges).toHaveLength(bridges.length)
+    expect(state.articulationPoints.sort()).toEqual([...articulationPoints].sort())
+    expect(state.frontier).toEqual([])
+    expect(state.low["5"]).toBe(3)
+  })
+
+  it("tracks the BFS queue", () => {
+    const { trace } = findShortestPath(initialGraph, "1", "13")
+
+    expect(replayTrace(trace, 1).frontier).toEqual(["1"])
+    expect(replayTrace(trace, 4).frontier).toEqual(["2", "11"])
+    expect(replayTrace(trace, trace.length).path).toEqual(["1", "11", "12", "13"])
+  })
+
+  it("tracks the Dijkstra open set", () => {
+    const { trace } = findWeightedPath(initialGraph, "3", "6")
+
+    const state = replayTrace(trace, 2)
+
+    expect(state.current).toBe("3")
+    expect(state.frontier).toEqual([])
+    expect(replayTrace(trace, 3).frontier).toEqual(["2"])
+  })
+})
@@ -0,0 +1,65 @@
+import type { TraceEvent, TraceState } from "./types"
+
+// Rebuild the algorithm state after the first `step` events of a trace
+export function replayTrace(trace: TraceEvent[], step: number): TraceState {
+  const state: TraceState = {
+    current: null,
+    visited: [],
+    frontier: [],
+    discovery: {},
+    low: {},
+    bridges: [],
+    articulationPoints: [],
+    path: [],
+  }
+
+  const removeFromFrontier = (node: string) => {
+    state.frontier = state.frontier.filter((id) => id !== node)
+  }
+
+  trace.slice(0, step).forEach((event) => {
+    switch (event.type) {
+      case "bfs-start":
+      case "search-start":
+        state.frontier = [event.node]
+        break
+      case "visit":
+      case "settle":
+        state.current = event.node
+        if (!state.visited.includes(event.node)) state.visited.push(event.node)
+        if (event.type === "visit" && event.discovery !== undefined) {
+          // DFS: the frontier is the recursion stack
+          state.discovery[event.node] = event.discovery
+          state.low[event.node] = event.discovery
+          state.frontier.push(event.node)
+        } else {
+          removeFromFrontier(event.node)
+        }
+        break
+      case "finish":
+        removeFromFrontier(event.node)
+        state.current = state.frontier[state.frontier.length - 1] ?? null
+        break
+      case "low-link":
+        state.low[event.node] = event.low
+        break
+      case "discover":
+        if (!state.frontier.includes(event.node)) state.frontier.push(event.node)
+        break
+      case "relax":
+        if (!state.frontier.includes(event.to)) state.frontier.push(event.to)
+        break
+      case "bridge":
+        state.bridges.push([event.source, event.target])
+        break
+      case "articulation-point":
+        if (!state.articulationPoints.includes(event.node)) state.articulationPoints.push(event.node)
+        break
+      case "path-found":
+        state.path = event.path
+        break
+    }
+  })
+
+  return state
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { initialGraph } from "./initial-graph"
+import { findShortestPath } from "./paths"
+import { commitRecoveryLink, proposeNearestRecovery, proposeRecovery } from "./recovery"
+import type { Graph } from "./types"
+
+const withoutPalawanLink: Graph = {
+  ...initialGraph,
+  edges: initialGraph.edges.map((edge) =>
+    edge.source === "2" && edge.target === "8" ? { ...edge, isActive: false } : edge,
+  ),
+}
+
+describe("proposeRecovery", () => {
+  it("proposes nothing when the network is connected", () => {
+    const result = proposeRecovery(initialGraph)
+
+    expect(result.hub).toBe("1")
+    expect(result.proposals).toEqual([])
+    expect(result.trace).toEqual([{ type: "recovery-start" }, { type: "all-connected" }])
+  })
+
+  it("joins a cut-off cluster with a single shortest link", () => {
+    const result = proposeRecovery(withoutPalawanLink)
+
+    expect(result.disconnected).toEqual(["8", "9", "10"])
+    expect(result.proposals).toEqual([{ source: "10", target: "4", distance: Math.hypot(20, 30) }])
+    expect(result.totalDistance).toBeCloseTo(Math.hypot(20, 30))
+    expect(result.baseline?.links).toBe(3)
+    expect(result.baseline?.distance).toBeCloseTo(Math.hypot(100, 50) + Math.hypot(70, 40) + Math.hypot(20, 30))
+  })
+
+  it("builds a spanning tree over several components", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      edges: initialGraph.edges.map((edge) =>
+        ["2-8", "1-11", "5-6"].includes(`${edge.source}-${edge.target}`) ? { ...edge, isActive: false } : edge,
+      ),
+    }
+
+    const result = proposeRecovery(graph)
+
+    expect(result.trace).toContainEqual({ type: "components", count: 4 })
+    expect(result.proposals).toHaveLength(3)
+    expect(result.totalDistance).toBeLessThan(result.baseline!.distance)
+  })
+
+  it("skips failed sites and starts from the first working hub", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      nodes: initialGraph.nodes.map((node) =>
+        node.id === "1" || node.id === "3" ? { ...node, isFailed: true } : node,
+      ),
+    }
+
+    const result = proposeRecovery(graph)
+
+    expect(result.hub).toBe("8")
+    expect(result.disconnected).toEqual(["4", "5", "6", "7", "11", "12", "13"])
+    expect(result.proposals.every((proposal) => proposal.target !== "1" && proposal.target !== "3")).toBe(true)
+  })
+
+  it("handles an empty graph", () => {
+    expect(proposeRecovery({ nodes: [], edges: [] }).proposals).toEqual([])
+  })
+})
+
+describe("proposeNearestRecovery", () => {
+  it("reconnects each cut-off node to its nearest reachable node", () => {
+    const result = proposeNearestRecovery(withoutPalawanLink)
+
+    expect(result.disconnected).toEqual(["8", "9", "10"])
+    expect(result.proposals.map((proposal) => [proposal.source, proposal.target])).toEqual([
+      ["8", "3"],
+      ["9", "4"],
+      ["10", "4"],
+    ])
+    expect(result.proposals[0].distance).toBeCloseTo(Math.hypot(100, 50))
+  })
+})
+
+describe("commitRecoveryLink", () => {
+  it("adds an active recovery link that later analyses use", () => {
+    const [proposal] = proposeRecovery(withoutPalawanLink).proposals
+    const graph = commitRecoveryLink(withoutPalawanLink, proposal)
+
+    expect(graph.edges).toHaveLength(withoutPalawanLink.edges.length + 1)
+    expect(graph.edges[graph.edges.length - 1]).toEqual({ source: "10", target: "4", isActive: true, isRecovery: true })
+    expect(proposeRecovery(graph).proposals).toEqual([])
+    expect(findShortestPath(graph, "9", "7").path).toEqual(["9", "8", "10", "4", "7"])
+  })
+})
@@ -0,0 +1,153 @@
+import { getActiveNodes } from "./adjacency"
+import { findConnectedComponents } from "./components"
+import { nodeDistance } from "./geo"
+import { measureOutageImpact } from "./impact"
+import { findReachable } from "./paths"
+import type { Graph, Node, RecoveryProposal, RecoveryResult, TraceEvent } from "./types"
+
+type RecoveryStart =
+  | { done: true; result: RecoveryResult }
+  | { done: false; hub: string; activeNodes: Node[]; reachable: Set<string>; trace: TraceEvent[] }
+
+// Shared first step: report who is cut off from every hub, pick the main hub and find out which working nodes
+// it can no longer reach. Failed nodes cannot be reconnected and are left out.
+function startRecovery(graph: Graph): RecoveryStart {
+  const trace: TraceEvent[] = [{ type: "recovery-start" }]
+  const impact = measureOutageImpact(graph)
+  if (impact.sites > 0) trace.push({ type: "impact", stage: "before", impact })
+  const activeNodes = getActiveNodes(graph)
+
+  if (activeNodes.length === 0) {
+    trace.push({ type: "all-connected" })
+    return { done: true, result: { hub: null, disconnected: [], proposals: [], totalDistance: 0, trace } }
+  }
+
+  // Start from a hub node (assuming the first working hub is the main source)
+  const hub = activeNodes.find((node) => node.type === "hub")?.id || activeNodes[0].id
+  const reachable = findReachable(graph, hub)
+
+  if (reachable.size === activeNodes.length) {
+    trace.push({ type: "all-connected" })
+    return { done: true, result: { hub, disconnected: [], proposals: [], totalDistance: 0, trace } }
+  }
+
+  trace.push({
+    type: "disconnected",
+    nodes: activeNodes.filter((node) => !reachable.has(node.id)).map((node) => node.id),
+  })
+  return { done: false, hub, activeNodes, reachable, trace }
+}
+
+const sumDistance = (proposals: RecoveryProposal[]) =>
+  proposals.reduce((total, proposal) => total + proposal.distance, 0)
+
+// Propose a link from every node cut off from the main hub to its nearest reachable node
+export function proposeNearestRecovery(graph: Graph): RecoveryResult {
+  const start = startRecovery(graph)
+  if (start.done) return start.result
+
+  const { hub, activeNodes, reachable, trace } = start
+  const disconnectedNodes = activeNodes.filter((node) => !reachable.has(node.id))
+  const connectedNodes = activeNodes.filter((node) => reachable.has(node.id))
+  const proposals: RecoveryProposal[] = []
+
+  // For each disconnected node, find the closest connected node to connect to
+  disconnectedNodes.forEach((disconnectedNode) => {
+    let closestNode = connectedNodes[0]
+    let minDistance = Number.MAX_VALUE
+
+    connectedNodes.forEach((connectedNode) => {
+      const distance = nodeDistance(connectedNode, disconnectedNode)
+      if (distance < minDistance) {
+        minDistance = distance
+        closestNode = connectedNode
+      }
+    })
+
+    proposals.push({ source: disconnectedNode.id, target: closestNode.id, distance: minDistance })
+    trace.push({ type: "reconnect", source: disconnectedNode.id, target: closestNode.id })
+  })
+
+  const totalDistance = sumDistance(proposals)
+  trace.push({ type: "recovery-total", links: proposals.length, distance: totalDistance })
+
+  return { hub, disconnected: disconnectedNodes.map((node) => node.id), proposals, totalDistance, trace }
+}
+
+// Propose the cheapest set of links that joins every connected component to the hub's component.
+// This is Kruskal's algorithm over components, where the cost of joining two components is the
+// shortest distance between any pair of their nodes.
+export function proposeRecovery(graph: Graph): RecoveryResult {
+  const start = startRecovery(graph)
+  if (start.done) return start.result
+
+  const { hub, activeNodes, reachable, trace } = start
+  const components = findConnectedComponents(graph)
+  trace.push({ type: "components", count: components.length })
+
+  const componentOf: Record<string, number> = {}
+  components.forEach((component, index) => {
+    component.forEach((id) => {
+      componentOf[id] = index
+    })
+  })
+
+  // Candidate links between every pair of nodes in different components, cheapest first
+  const candidates: RecoveryProposal[] = []
+  activeNodes.forEach((a, i) => {
+    activeNodes.slice(i + 1).forEach((b) => {
+      if (componentOf[a.id] !== componentOf[b.id]) {
+        candidates.push({ source: a.id, target: b.id, distance: nodeDistance(a, b) })
+      }
+    })
+  })
+  candidates.sort((x, y) => x.distance - y.distance)
+
+  // Union-find over component indices
+  const parent = components.map((_, index) => index)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+
+  const proposals: RecoveryProposal[] = []
+  for (const candidate of candidates) {
+    if (proposals.length === components.length - 1) break
+
+    const a = find(componentOf[candidate.source])
+    const b = find(componentOf[candidate.target])
+    if (a === b) continue
+
+    parent[a] = b
+    // Orient each link from the side that was cut off towards the hub's side where possible
+    const proposal = reachable.has(candidate.source)
+      ? { source: candidate.target, target: candidate.source, distance: candidate.distance }
+      : candidate
+    proposals.push(proposal)
+    trace.push({ type: "reconnect", source: proposal.source, target: proposal.target })
+  }
+
+  const totalDistance = sumDistance(proposals)
+  const nearest = proposeNearestRecovery(graph)
+  const baseline = { links: nearest.proposals.length, distance: nearest.totalDistance }
+  trace.push({ type: "recovery-total", links: proposals.length, distance: totalDistance, baseline })
+  trace.push({
+    type: "impact",
+    stage: "after",
+    impact: measureOutageImpact(proposals.reduce(commitRecoveryLink, graph)),
+  })
+
+  return {
+    hub,
+    disconnected: activeNodes.filter((node) => !reachable.has(node.id)).map((node) => node.id),
+    proposals,
+    totalDistance,
+    baseline,
+    trace,
+  }
+}
+
+// Merge an accepted recovery proposal into the topology as an active recovery link
+export function commitRecoveryLink(graph: Graph, proposal: Pick<RecoveryProposal, "source" | "target">): Graph {
+  return {
+    ...graph,
+    edges: [...graph.edges, { source: proposal.source, target: proposal.target, isActive: true, isRecovery: true }],
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest"
+import { findCriticalPoints } from "./critical-points"
+import { initialGraph } from "./initial-graph"
+import { commitRecoveryLink } from "./recovery"
+import { planRedundancy } from "./redundancy"
+import type { Graph } from "./types"
+
+// Sites on a straight line, 10 units apart, linked in a chain
+const chain = (ids: string[]): Graph => ({
+  nodes: ids.map((id, idx) => ({ id, label: id.toUpperCase(), x: idx * 10, y: 0, type: "city" })),
+  edges: ids.slice(1).map((id, idx) => ({ source: ids[idx], target: id, isActive: true })),
+})
+
+const applyPlan = (graph: Graph, plan: ReturnType<typeof planRedundancy>) =>
+  plan.proposals.reduce(commitRecoveryLink, graph)
+
+describe("planRedundancy", () => {
+  it("closes a chain into a ring with a single link", () => {
+    const plan = planRedundancy(chain(["a", "b", "c", "d", "e"]))
+
+    expect(plan.proposals).toEqual([{ source: "a", target: "e", distance: 40 }])
+    expect(plan.bridgesBefore).toBe(4)
+    expect(plan.bridgesAfter).toBe(0)
+    expect(plan.articulationPointsBefore).toBe(3)
+    expect(plan.articulationPointsAfter).toBe(0)
+  })
+
+  it("removes every bridge from the sample network", () => {
+    const plan = planRedundancy(initialGraph)
+
+    expect(plan.bridgesBefore).toBe(9)
+    expect(plan.bridgesAfter).toBe(0)
+    expect(findCriticalPoints(applyPlan(initialGraph, plan)).bridges).toEqual([])
+    expect(plan.totalDistance).toBeCloseTo(plan.proposals.reduce((total, p) => total + p.distance, 0))
+  })
+
+  it("never plans more total length with the shortest objective", () => {
+    // Closing a short loop first looks cheap per bridge, but the far site still needs its own long link
+    const tail = chain(["a", "b", "c", "d"])
+    tail.nodes[3] = { ...tail.nodes[3], x: 1000 }
+
+    expect(planRedundancy(tail).proposals).toEqual([{ source: "a", target: "d", distance: 1000 }])
+    expect(planRedundancy(tail, { objective: "shortest" }).totalDistance).toBe(1000)
+
+    const fewest = planRedundancy(initialGraph)
+    const shortest = planRedundancy(initialGraph, { objective: "shortest" })
+    expect(shortest.bridgesAfter).toBe(0)
+    expect(shortest.totalDistance).toBeLessThanOrEqual(fewest.totalDistance)
+  })
+
+  it("also removes articulation points when asked", () => {
+    // A star stays free of articulation points only once every leaf has a second route
+    const star: Graph = {
+      nodes: [
+        { id: "c", label: "C", x: 0, y: 0, type: "hub" },
+        { id: "n", label: "N", x: 0, y: -10, type: "city" },
+        { id: "e", label: "E", x: 10, y: 0, type: "city" },
+        { id: "s", label: "S", x: 0, y: 10, type: "city" },
+      ],
+      edges: ["n", "e", "s"].map((id) => ({ source: "c", target: id, isActive: true })),
+    }
+
+    const edgeOnly = planRedundancy(star)
+    expect(edgeOnly.bridgesAfter).toBe(0)
+
+    const plan = planRedundancy(star, { goal: "biconnected" })
+    expect(plan.articulationPointsBefore).toBe(1)
+    expect(plan.articulationPointsAfter).toBe(0)
+    expect(plan.proposals).toHaveLength(2)
+  })
+
+  it("leaves a network that is already redundant alone", () => {
+    const ring = commitRecoveryLink(chain(["a", "b", "c"]), { source: "a", target: "c" })
+
+    expect(planRedundancy(ring, { goal: "biconnected" }).proposals).toEqual([])
+  })
+
+  it("plans around failed sites and never links separate components", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      nodes: initialGraph.nodes.map((node) => (node.id === "2" ? { ...node, isFailed: true } : node)),
+    }
+
+    const plan = planRedundancy(graph)
+    expect(plan.proposals.some((p) => p.source === "2" || p.target === "2")).toBe(false)
+    expect(findCriticalPoints(applyPlan(graph, plan)).components).toHaveLength(
+      findCriticalPoints(graph).components.length,
+    )
+  })
+  it("keeps separate components apart, even isolated sites", () => {
+    const left = chain(["a", "b", "c"])
+    const right = chain(["d", "e", "f"])
+    const graph: Graph = {
+      nodes: [
+        ...left.nodes,
+        ...right.nodes.map((node) => ({ ...node, y: 50 })),
+        { id: "g", label: "G", x: 0, y: 100, type: "barangay" },
+        { id: "h", label: "H", x: 10, y: 100, type: "barangay" },
+      ],
+      edges: [...left.edges, ...right.edges],
+    }
+    const componentOf = (id: string) => ["abc", "def", "g", "h"].findIndex((ids) => ids.includes(id))
+
+    ;(["two-edge", "biconnected"] as const).forEach((goal) => {
+      const plan = planRedundancy(graph, { goal })
+      expect(plan.proposals).toHaveLength(2)
+      plan.proposals.forEach((proposal) => expect(componentOf(proposal.source)).toBe(componentOf(proposal.target)))
+      expect(plan.bridgesAfter).toBe(0)
+    })
+  })
+
+  it("pairs up the leaves of a large star without re-decomposing the network per candidate", () => {
+    const spokes = 300
+    const graph: Graph = {
+      nodes: [
+        { id: "hub", label: "Hub", x: 300, y: 225, type: "hub" },
+        ...Array.from({ length: spokes }, (_, idx) => ({
+          id: `s${idx}`,
+          label: `S${idx}`,
+          x: 300 + 200 * Math.cos((2 * Math.PI * idx) / spokes),
+          y: 225 + 200 * Math.sin((2 * Math.PI * idx) / spokes),
+          type: "barangay" as const,
+        })),
+      ],
+      edges: Array.from({ length: spokes }, (_, idx) => ({ source: "hub", target: `s${idx}`, isActive: true })),
+    }
+
+    const started = performance.now()
+    const plan = planRedundancy(graph)
+
+    // Every link joins two leaves, the fewest possible
+    expect(plan.proposals).toHaveLength(spokes / 2)
+    expect(plan.bridgesAfter).toBe(0)
+    // Trying every pair against a fresh decomposition each round would take minutes
+    expect(performance.now() - started).toBeLessThan(5000)
+  })
+})
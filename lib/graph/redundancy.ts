@@ -0,0 +1,255 @@
+import { getActiveNodes } from "./adjacency"
+import { findConnectedComponents } from "./components"
+import { findCriticalPoints } from "./critical-points"
+import { buildBlockCutTree, findBiconnectedComponents, findTwoEdgeConnectedComponents } from "./decomposition"
+import { nodeDistance } from "./geo"
+import { commitRecoveryLink } from "./recovery"
+import type { Graph, RecoveryProposal, RedundancyGoal, RedundancyObjective, RedundancyPlan } from "./types"
+
+type RedundancyOptions = {
+  goal?: RedundancyGoal
+  objective?: RedundancyObjective
+}
+
+// Pieces that hold together through any single link failure (2-edge-connected components), or any single
+// site failure as well (blocks)
+const findGroups = (graph: Graph, goal: RedundancyGoal): string[][] =>
+  goal === "two-edge"
+    ? findTwoEdgeConnectedComponents(graph)
+    : findBiconnectedComponents(graph).map((block) => block.nodes)
+
+// The groups joined up through bridges (two-edge goal), or blocks and the articulation points between them
+// (biconnected goal). Either way it is a forest, and a new link merges every group on the path between its ends.
+type GroupTree = {
+  // Tree vertex each working site belongs to; articulation points are vertices of their own
+  vertexOf: Map<string, number>
+  neighbors: number[][]
+  isGroup: boolean[]
+}
+
+function buildGroupTree(graph: Graph, goal: RedundancyGoal): GroupTree {
+  const vertexOf = new Map<string, number>()
+
+  if (goal === "two-edge") {
+    const groups = findTwoEdgeConnectedComponents(graph)
+    groups.forEach((group, index) => group.forEach((id) => vertexOf.set(id, index)))
+    const neighbors = groups.map((): number[] => [])
+    findCriticalPoints(graph).bridges.forEach((bridge) => {
+      const a = vertexOf.get(bridge.source)!
+      const b = vertexOf.get(bridge.target)!
+      neighbors[a].push(b)
+      neighbors[b].push(a)
+    })
+    return { vertexOf, neighbors, isGroup: groups.map(() => true) }
+  }
+
+  const blocks = findBiconnectedComponents(graph)
+  const { cutVertices, links } = buildBlockCutTree(blocks)
+  blocks.forEach((block, index) => block.nodes.forEach((id) => vertexOf.set(id, index)))
+  cutVertices.forEach((id, index) => vertexOf.set(id, blocks.length + index))
+  const neighbors = [...blocks, ...cutVertices].map((): number[] => [])
+  links.forEach(({ block, cutVertex }) => {
+    neighbors[block].push(vertexOf.get(cutVertex)!)
+    neighbors[vertexOf.get(cutVertex)!].push(block)
+  })
+  return { vertexOf, neighbors, isGroup: neighbors.map((_, index) => index < blocks.length) }
+}
+
+// Root each tree of the forest so the groups on any path can be counted by climbing to the common ancestor
+function rootGroupTree(tree: GroupTree) {
+  const parent = tree.neighbors.map(() => -1)
+  const depth = tree.neighbors.map(() => -1)
+  // Groups from the root down to each vertex, both included
+  const groupsAbove = tree.neighbors.map(() => 0)
+
+  tree.neighbors.forEach((_, root) => {
+    if (depth[root] !== -1) return
+    depth[root] = 0
+    groupsAbove[root] = tree.isGroup[root] ? 1 : 0
+    const stack = [root]
+    while (stack.length > 0) {
+      const current = stack.pop()!
+      for (const next of tree.neighbors[current]) {
+        if (depth[next] !== -1) continue
+        parent[next] = current
+        depth[next] = depth[current] + 1
+        groupsAbove[next] = groupsAbove[current] + (tree.isGroup[next] ? 1 : 0)
+        stack.push(next)
+      }
+    }
+  })
+
+  // Groups on the path between two vertices of the same tree, both ends included
+  return (a: number, b: number) => {
+    let x = a
+    let y = b
+    while (depth[x] > depth[y]) x = parent[x]
+    while (depth[y] > depth[x]) y = parent[y]
+    while (x !== y) {
+      x = parent[x]
+      y = parent[y]
+    }
+    return groupsAbove[a] + groupsAbove[b] - 2 * groupsAbove[x] + (tree.isGroup[x] ? 1 : 0)
+  }
+}
+
+// Most groups a single new link can merge: the longest path in any of the trees, found by sweeping out to the
+// farthest vertex and back again
+function mostGroupsMerged(tree: GroupTree, countGroupsBetween: (a: number, b: number) => number): number {
+  const seen = tree.neighbors.map(() => false)
+  const farthestFrom = (start: number) => {
+    const hops = new Map([[start, 0]])
+    const queue = [start]
+    let farthest = start
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i]
+      seen[current] = true
+      if (hops.get(current)! > hops.get(farthest)!) farthest = current
+      for (const next of tree.neighbors[current]) {
+        if (hops.has(next)) continue
+        hops.set(next, hops.get(current)! + 1)
+        queue.push(next)
+      }
+    }
+    return farthest
+  }
+
+  let most = 0
+  tree.neighbors.forEach((_, vertex) => {
+    if (seen[vertex]) return
+    const end = farthestFrom(vertex)
+    most = Math.max(most, countGroupsBetween(end, farthestFrom(end)) - 1)
+  })
+  return most
+}
+
+// Greedily add links until the groups stop merging, keeping the best candidate by `score` each round.
+// Only links between two leaf groups of the tree are tried, since any other link merges no more groups than
+// one carried on out to the leaves, and the merge count comes from the tree rather than re-decomposing the
+// network per candidate. `score` must not improve with length, so with candidates sorted shortest first a round
+// can stop once not even the longest possible merge would beat the best so far.
+// Links that turn out to be unneeded are dropped at the end.
+function addLinksGreedily(
+  graph: Graph,
+  goal: RedundancyGoal,
+  candidates: RecoveryProposal[],
+  score: (candidate: RecoveryProposal, merged: number) => number,
+): RecoveryProposal[] {
+  let proposals: RecoveryProposal[] = []
+  let planned = graph
+
+  // Work with site positions rather than ids, since every round looks up both ends of every candidate
+  const sites = getActiveNodes(graph).map((node) => node.id)
+  const siteIndex = new Map(sites.map((id, idx) => [id, idx]))
+  // Candidates still worth trying from `first` on; once both ends share a group they never split again, so
+  // they are dropped
+  const open = candidates.map((candidate) => ({
+    candidate,
+    a: siteIndex.get(candidate.source)!,
+    b: siteIndex.get(candidate.target)!,
+  }))
+  let first = 0
+
+  for (;;) {
+    const tree = buildGroupTree(planned, goal)
+    const countGroupsBetween = rootGroupTree(tree)
+    const vertexOf = sites.map((id) => tree.vertexOf.get(id)!)
+    const most = mostGroupsMerged(tree, countGroupsBetween)
+
+    let best: RecoveryProposal | null = null
+    let bestScore = 0
+    let kept = 0
+    let next = first
+    for (; next < open.length; next++) {
+      const { candidate, a, b } = open[next]
+      const from = vertexOf[a]
+      const to = vertexOf[b]
+      if (from === to) continue
+      if (best && score(candidate, most) >= bestScore) break
+      open[first + kept++] = open[next]
+
+      if (tree.neighbors[from].length !== 1 || tree.neighbors[to].length !== 1) continue
+
+      const merged = countGroupsBetween(from, to) - 1
+      if (merged <= 0) continue
+
+      const candidateScore = score(candidate, merged)
+      if (!best || candidateScore < bestScore) {
+        best = candidate
+        bestScore = candidateScore
+      }
+    }
+    // Slide the candidates kept this round up against the ones it did not reach, so dropping the rest only
+    // costs what was scanned
+    for (let i = kept - 1; i >= 0; i--) open[next - kept + i] = open[first + i]
+    first = next - kept
+
+    if (!best) break
+    proposals.push(best)
+    planned = commitRecoveryLink(planned, best)
+  }
+
+  // A later link can make an earlier one redundant; drop the longest such links first
+  const groupCount = findGroups(planned, goal).length
+  Array.from(proposals)
+    .sort((x, y) => y.distance - x.distance)
+    .forEach((proposal) => {
+      const rest = proposals.filter((other) => other !== proposal)
+      if (findGroups(rest.reduce(commitRecoveryLink, graph), goal).length === groupCount) proposals = rest
+    })
+
+  return proposals
+}
+
+const sumDistance = (proposals: RecoveryProposal[]) =>
+  proposals.reduce((total, proposal) => total + proposal.distance, 0)
+
+// Propose new links so that no single link (or, for the biconnected goal, site) failure can split a connected
+// network. Both objectives are greedy heuristics with no guarantee of the true minimum: `fewest` merges as many
+// groups as possible with each link; `shortest` also tries the link with the lowest length per merged group and
+// keeps whichever plan is shorter overall. Candidates are ranked by geographic length and only join sites in the
+// same connected component, since a link between components would only add a bridge.
+export function planRedundancy(
+  graph: Graph,
+  { goal = "two-edge", objective = "fewest" }: RedundancyOptions = {},
+): RedundancyPlan {
+  const activeNodes = getActiveNodes(graph)
+  const componentOf = new Map<string, number>()
+  findConnectedComponents(graph).forEach((component, index) => {
+    component.forEach((id) => componentOf.set(id, index))
+  })
+
+  const linked = new Set(
+    graph.edges.flatMap((edge) =>
+      edge.isActive ? [`${edge.source}|${edge.target}`, `${edge.target}|${edge.source}`] : [],
+    ),
+  )
+
+  const candidates: RecoveryProposal[] = []
+  activeNodes.forEach((a, i) => {
+    activeNodes.slice(i + 1).forEach((b) => {
+      if (componentOf.get(a.id) !== componentOf.get(b.id) || linked.has(`${a.id}|${b.id}`)) return
+      candidates.push({ source: a.id, target: b.id, distance: nodeDistance(a, b) })
+    })
+  })
+  candidates.sort((x, y) => x.distance - y.distance)
+
+  let proposals = addLinksGreedily(graph, goal, candidates, (_, merged) => -merged)
+  if (objective === "shortest") {
+    const byLength = addLinksGreedily(graph, goal, candidates, (candidate, merged) => candidate.distance / merged)
+    if (sumDistance(byLength) < sumDistance(proposals)) proposals = byLength
+  }
+
+  const before = findCriticalPoints(graph)
+  const after = findCriticalPoints(proposals.reduce(commitRecoveryLink, graph))
+  return {
+    goal,
+    objective,
+    proposals,
+    totalDistance: sumDistance(proposals),
+    bridgesBefore: before.bridges.length,
+    bridgesAfter: after.bridges.length,
+    articulationPointsBefore: before.articulationPoints.length,
+    articulationPointsAfter: after.articulationPoints.length,
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { createRandom, estimateReliability, wilsonInterval } from "./reliability"
+import type { Graph } from "./types"
+
+// Hub - A - B in a line, plus C hanging off a link that is already down
+const chain = (failureProbability: number): Graph => ({
+  nodes: [
+    { id: "h", label: "Hub", x: 0, y: 0, type: "hub" },
+    { id: "a", label: "A", x: 10, y: 0, type: "city" },
+    { id: "b", label: "B", x: 20, y: 0, type: "barangay" },
+    { id: "c", label: "C", x: 30, y: 0, type: "barangay" },
+  ],
+  edges: [
+    { source: "h", target: "a", isActive: true, failureProbability },
+    { source: "a", target: "b", isActive: true, failureProbability },
+    { source: "b", target: "c", isActive: false, failureProbability: 0 },
+  ],
+})
+
+describe("wilsonInterval", () => {
+  it("matches the textbook values", () => {
+    const half = wilsonInterval(50, 100)
+    expect(half.low).toBeCloseTo(0.404, 3)
+    expect(half.high).toBeCloseTo(0.596, 3)
+
+    const none = wilsonInterval(0, 10)
+    expect(none.low).toBe(0)
+    expect(none.high).toBeCloseTo(0.2775, 3)
+    expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 1 })
+  })
+})
+
+describe("estimateReliability", () => {
+  it("estimates series reliability within its confidence interval", () => {
+    const { samples, sites } = estimateReliability(chain(0.5), { samples: 20000, random: createRandom(7) })
+    const [a, b, c] = sites
+
+    expect(samples).toBe(20000)
+    expect(sites.map((site) => site.node)).toEqual(["a", "b", "c"])
+    expect(a.probability).toBeCloseTo(0.5, 1)
+    expect(b.probability).toBeCloseTo(0.25, 1)
+    expect(a.low).toBeLessThan(0.5)
+    expect(a.high).toBeGreaterThan(0.5)
+    expect(b.low).toBeLessThan(0.25)
+    expect(b.high).toBeGreaterThan(0.25)
+    // Links already down never come back in a sample
+    expect(c).toMatchObject({ connected: 0, probability: 0 })
+  })
+
+  it("is certain when links never fail", () => {
+    const { sites } = estimateReliability(chain(0), { samples: 200, random: createRandom(1) })
+
+    expect(sites.slice(0, 2).map((site) => site.probability)).toEqual([1, 1])
+  })
+
+  it("leaves out failed sites and counts sites cut off from every working hub", () => {
+    const graph = chain(0)
+    graph.nodes[0] = { ...graph.nodes[0], isFailed: true }
+    graph.nodes[2] = { ...graph.nodes[2], isFailed: true }
+
+    const { sites } = estimateReliability(graph, { samples: 100, random: createRandom(1) })
+
+    expect(sites.map((site) => [site.node, site.probability])).toEqual([
+      ["a", 0],
+      ["c", 0],
+    ])
+  })
+
+  it("repeats exactly with the same seed", () => {
+    const run = () => estimateReliability(chain(0.3), { samples: 500, random: createRandom(42) })
+
+    expect(run()).toEqual(run())
+  })
+})
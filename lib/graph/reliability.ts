@@ -0,0 +1,95 @@
+import { getActiveNodes } from "./adjacency"
+import type { Edge, Graph, ReliabilityResult } from "./types"
+
+// Chance that a link without its own figure is down when a state is sampled
+export const DEFAULT_FAILURE_PROBABILITY = 0.05
+
+export const DEFAULT_RELIABILITY_SAMPLES = 5000
+
+export function getFailureProbability(edge: Edge): number {
+  return edge.failureProbability ?? DEFAULT_FAILURE_PROBABILITY
+}
+
+// Small seedable generator (mulberry32) so runs can be repeated exactly
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Normal quantiles for the supported confidence levels
+const zScores: Record<number, number> = { 0.9: 1.645, 0.95: 1.96, 0.99: 2.576 }
+
+// Wilson score interval for a binomial proportion, which stays inside [0, 1] even at 0 or n successes
+export function wilsonInterval(successes: number, trials: number, z = zScores[0.95]): { low: number; high: number } {
+  if (trials === 0) return { low: 0, high: 1 }
+  const p = successes / trials
+  const denominator = 1 + (z * z) / trials
+  const center = (p + (z * z) / (2 * trials)) / denominator
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator
+  return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) }
+}
+
+// Estimate, for every working city and barangay, the probability of reaching a working hub when each
+// active link fails independently with its failure probability. Links already down and failed sites stay down.
+export function estimateReliability(
+  graph: Graph,
+  {
+    samples = DEFAULT_RELIABILITY_SAMPLES,
+    confidence = 0.95,
+    random = Math.random,
+  }: { samples?: number; confidence?: number; random?: () => number } = {},
+): ReliabilityResult {
+  const nodes = getActiveNodes(graph)
+  const indexOf = new Map(nodes.map((node, idx) => [node.id, idx]))
+  const hubs = nodes.flatMap((node, idx) => (node.type === "hub" ? [idx] : []))
+  const sites = nodes.flatMap((node, idx) => (node.type === "hub" ? [] : [idx]))
+
+  // Only links between working sites can carry traffic
+  const links = graph.edges.flatMap((edge) => {
+    const a = indexOf.get(edge.source)
+    const b = indexOf.get(edge.target)
+    return edge.isActive && a !== undefined && b !== undefined && a !== b
+      ? [{ a, b, failure: getFailureProbability(edge) }]
+      : []
+  })
+
+  const connected = sites.map(() => 0)
+  const parent = nodes.map((_, idx) => idx)
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]]
+      x = parent[x]
+    }
+    return x
+  }
+
+  for (let sample = 0; sample < samples; sample++) {
+    parent.forEach((_, idx) => (parent[idx] = idx))
+    links.forEach(({ a, b, failure }) => {
+      if (random() >= failure) parent[find(a)] = find(b)
+    })
+
+    const hubRoots = new Set(hubs.map(find))
+    sites.forEach((site, idx) => {
+      if (hubRoots.has(find(site))) connected[idx]++
+    })
+  }
+
+  const z = zScores[confidence] ?? zScores[0.95]
+  return {
+    samples,
+    confidence: zScores[confidence] ? confidence : 0.95,
+    sites: sites.map((site, idx) => ({
+      node: nodes[site].id,
+      connected: connected[idx],
+      probability: samples > 0 ? connected[idx] / samples : 0,
+      ...wilsonInterval(connected[idx], samples, z),
+    })),
+  }
+}
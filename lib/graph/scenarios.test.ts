@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { findConnectedComponents } from "./components"
+import { findCriticalPoints } from "./critical-points"
+import { findReachable } from "./paths"
+import { applyScenarioFailures, findScenario, scenarios } from "./scenarios"
+
+describe("scenarios", () => {
+  it.each(scenarios.map((scenario) => [scenario.id, scenario] as const))(
+    "%s is a consistent topology",
+    (_, scenario) => {
+      const ids = scenario.graph.nodes.map((node) => node.id)
+
+      expect(new Set(ids).size).toBe(ids.length)
+      scenario.graph.edges.forEach((edge) => {
+        expect(ids).toContain(edge.source)
+        expect(ids).toContain(edge.target)
+      })
+      scenario.failures.links.forEach(([a, b]) => {
+        expect(
+          scenario.graph.edges.some((edge) => [edge.source, edge.target].sort().join() === [a, b].sort().join()),
+        ).toBe(true)
+      })
+      scenario.failures.sites.forEach((site) => expect(ids).toContain(site))
+      // Intact networks are fully connected
+      expect(findConnectedComponents(scenario.graph)).toHaveLength(1)
+    },
+  )
+
+  it("keeps the Mindanao ring connected through any single ring cut", () => {
+    const { graph } = findScenario("mindanao-ring")!
+    const { bridges } = findCriticalPoints(graph)
+
+    expect(bridges.map((edge) => edge.target).sort()).toEqual(["mal", "mat", "sur"])
+  })
+
+  it("makes every Cordillera link a bridge", () => {
+    const { graph } = findScenario("cordillera-tree")!
+
+    expect(findCriticalPoints(graph).bridges).toHaveLength(graph.edges.length)
+  })
+
+  it("applies preset failures without touching the bundled topology", () => {
+    const scenario = findScenario("visayas-island-chain")!
+    const drill = applyScenarioFailures(scenario.graph, scenario.failures)
+
+    expect(drill.edges.filter((edge) => !edge.isActive)).toHaveLength(2)
+    expect(drill.nodes.find((node) => node.id === "tag")?.isFailed).toBe(true)
+    expect(scenario.graph.edges.every((edge) => edge.isActive)).toBe(true)
+    // Leyte is cut off from Cebu while Panay still reaches it through Dumaguete
+    expect(Array.from(findReachable(drill, "ceb")).sort()).toEqual([
+      "ban",
+      "bcd",
+      "cat",
+      "ceb",
+      "dgt",
+      "gui",
+      "ilo",
+      "rox",
+      "siq",
+    ])
+  })
+})
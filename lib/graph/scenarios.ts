@@ -0,0 +1,202 @@
+import { connects } from "./adjacency"
+import { projectToCanvas } from "./geo"
+import { initialGraph } from "./initial-graph"
+import type { Edge, Graph, Node } from "./types"
+
+// Links (as endpoint pairs) and sites that a scenario knocks out for a drill
+export type ScenarioFailures = {
+  links: [string, string][]
+  sites: string[]
+}
+
+export type Scenario = {
+  id: string
+  name: string
+  description: string
+  // What the preset failures represent, read out when a drill starts
+  drill: string
+  graph: Graph
+  failures: ScenarioFailures
+}
+
+type Site = Omit<Node, "x" | "y"> & { lat: number; lng: number }
+
+// Place geolocated sites on the canvas
+const placeSites = (sites: Site[]): Node[] => {
+  const positions = projectToCanvas(sites)
+  return sites.map((site, idx) => ({ ...site, ...positions[idx] }))
+}
+
+const link = (source: string, target: string, capacity: number, isSubmarine = false): Edge => ({
+  source,
+  target,
+  isActive: true,
+  capacity,
+  ...(isSubmarine ? { isSubmarine: true } : {}),
+})
+
+const mindanaoRing: Graph = {
+  nodes: placeSites([
+    { id: "dvo", label: "Davao Hub", type: "hub", lat: 7.0731, lng: 125.6128 },
+    { id: "gsc", label: "General Santos", type: "city", lat: 6.1164, lng: 125.1716 },
+    { id: "kor", label: "Koronadal", type: "city", lat: 6.5008, lng: 124.8469 },
+    { id: "cot", label: "Cotabato City", type: "city", lat: 7.2236, lng: 124.2464 },
+    { id: "pag", label: "Pagadian", type: "city", lat: 7.8257, lng: 123.437 },
+    { id: "zam", label: "Zamboanga Hub", type: "hub", lat: 6.9214, lng: 122.079 },
+    { id: "dip", label: "Dipolog", type: "city", lat: 8.5883, lng: 123.3409 },
+    { id: "ili", label: "Iligan", type: "city", lat: 8.228, lng: 124.2452 },
+    { id: "cdo", label: "Cagayan de Oro Hub", type: "hub", lat: 8.4542, lng: 124.6319 },
+    { id: "but", label: "Butuan", type: "city", lat: 8.9475, lng: 125.5406 },
+    { id: "tag", label: "Tagum", type: "city", lat: 7.4478, lng: 125.8078 },
+    { id: "sur", label: "Surigao", type: "barangay", lat: 9.7843, lng: 125.4888 },
+    { id: "mat", label: "Mati", type: "barangay", lat: 6.9551, lng: 126.2166 },
+    { id: "mal", label: "Malita", type: "barangay", lat: 6.4153, lng: 125.61 },
+  ]),
+  edges: [
+    link("dvo", "gsc", 1000),
+    link("gsc", "kor", 500),
+    link("kor", "cot", 500),
+    link("cot", "pag", 400),
+    link("pag", "zam", 400),
+    link("zam", "dip", 400),
+    link("dip", "ili", 400),
+    link("ili", "cdo", 1000),
+    link("cdo", "but", 500),
+    link("but", "tag", 500),
+    link("tag", "dvo", 1000),
+    link("but", "sur", 100),
+    link("tag", "mat", 100),
+    link("dvo", "mal", 100),
+  ],
+}
+
+const visayasIslandChain: Graph = {
+  nodes: placeSites([
+    { id: "ceb", label: "Cebu Hub", type: "hub", lat: 10.3157, lng: 123.8854 },
+    { id: "ban", label: "Bantayan", type: "barangay", lat: 11.169, lng: 123.722 },
+    { id: "tag", label: "Tagbilaran", type: "city", lat: 9.65, lng: 123.85 },
+    { id: "dgt", label: "Dumaguete", type: "city", lat: 9.3068, lng: 123.3054 },
+    { id: "siq", label: "Siquijor", type: "barangay", lat: 9.199, lng: 123.595 },
+    { id: "bcd", label: "Bacolod", type: "city", lat: 10.677, lng: 122.95 },
+    { id: "ilo", label: "Iloilo Hub", type: "hub", lat: 10.7202, lng: 122.5621 },
+    { id: "gui", label: "Jordan, Guimaras", type: "barangay", lat: 10.587, lng: 122.59 },
+    { id: "rox", label: "Roxas", type: "city", lat: 11.5853, lng: 122.7511 },
+    { id: "cat", label: "Caticlan", type: "barangay", lat: 11.9283, lng: 121.9533 },
+    { id: "orm", label: "Ormoc", type: "city", lat: 11.0064, lng: 124.6075 },
+    { id: "tac", label: "Tacloban Hub", type: "hub", lat: 11.2444, lng: 125.0039 },
+    { id: "cbg", label: "Catbalogan", type: "city", lat: 11.7753, lng: 124.8861 },
+  ]),
+  edges: [
+    link("ceb", "ban", 100, true),
+    link("ceb", "tag", 400, true),
+    link("ceb", "dgt", 400, true),
+    link("ceb", "bcd", 1000, true),
+    link("ceb", "orm", 1000, true),
+    link("dgt", "siq", 100, true),
+    link("dgt", "bcd", 400),
+    link("bcd", "ilo", 1000, true),
+    link("ilo", "gui", 100, true),
+    link("ilo", "rox", 400),
+    link("rox", "cat", 200),
+    link("orm", "tac", 1000),
+    link("tac", "cbg", 400),
+  ],
+}
+
+const cordilleraTree: Graph = {
+  nodes: placeSites([
+    { id: "bag", label: "Baguio Hub", type: "hub", lat: 16.4023, lng: 120.596 },
+    { id: "ltr", label: "La Trinidad", type: "city", lat: 16.455, lng: 120.588 },
+    { id: "kab", label: "Kabayan", type: "barangay", lat: 16.623, lng: 120.85 },
+    { id: "bug", label: "Buguias", type: "barangay", lat: 16.72, lng: 120.827 },
+    { id: "bon", label: "Bontoc", type: "city", lat: 17.089, lng: 120.977 },
+    { id: "sag", label: "Sagada", type: "barangay", lat: 17.084, lng: 120.9 },
+    { id: "tin", label: "Tinglayan", type: "barangay", lat: 17.264, lng: 121.153 },
+    { id: "tab", label: "Tabuk", type: "city", lat: 17.418, lng: 121.444 },
+    { id: "bnu", label: "Banaue", type: "city", lat: 16.912, lng: 121.058 },
+    { id: "btd", label: "Batad", type: "barangay", lat: 16.93, lng: 121.09 },
+    { id: "lag", label: "Lagawe", type: "city", lat: 16.799, lng: 121.12 },
+    { id: "kia", label: "Kiangan", type: "barangay", lat: 16.779, lng: 121.086 },
+  ]),
+  edges: [
+    link("bag", "ltr", 1000),
+    link("ltr", "kab", 100),
+    link("ltr", "bug", 400),
+    link("bug", "bon", 400),
+    link("bon", "sag", 100),
+    link("bon", "tin", 200),
+    link("tin", "tab", 200),
+    link("bon", "bnu", 200),
+    link("bnu", "btd", 50),
+    link("bnu", "lag", 200),
+    link("lag", "kia", 100),
+  ],
+}
+
+// Bundled topologies for lessons and team drills; the first one is loaded on startup
+export const scenarios: Scenario[] = [
+  {
+    id: "cebu-palawan-quezon",
+    name: "Cebu, Palawan & Quezon",
+    description:
+      "The original sample network: a Cebu backbone with a single link out to Palawan and a spur to Quezon. " +
+      "Good for a first look at bridges and articulation points.",
+    drill: "Fiber cut between Cebu City and the Palawan Hub, and the Baco barangay site loses power.",
+    graph: initialGraph,
+    failures: { links: [["2", "8"]], sites: ["7"] },
+  },
+  {
+    id: "mindanao-ring",
+    name: "Mindanao Ring",
+    description:
+      "A backbone ring around Mindanao joining Davao, Zamboanga and Cagayan de Oro, with barangay spurs. " +
+      "Any single ring link can fail without cutting anyone off.",
+    drill: "Flooding cuts the ring in two places: Cotabato–Pagadian and Iligan–Cagayan de Oro.",
+    graph: mindanaoRing,
+    failures: {
+      links: [
+        ["cot", "pag"],
+        ["ili", "cdo"],
+      ],
+      sites: [],
+    },
+  },
+  {
+    id: "visayas-island-chain",
+    name: "Visayas Island Chain",
+    description:
+      "Islands from Panay to Leyte linked by submarine cables (blue) through the Cebu Hub. " +
+      "Negros and Panay also reach Cebu overland through Dumaguete.",
+    drill: "A typhoon damages the Cebu–Ormoc and Cebu–Bacolod submarine cables and knocks out Tagbilaran.",
+    graph: visayasIslandChain,
+    failures: {
+      links: [
+        ["ceb", "orm"],
+        ["ceb", "bcd"],
+      ],
+      sites: ["tag"],
+    },
+  },
+  {
+    id: "cordillera-tree",
+    name: "Cordillera Tree",
+    description:
+      "A mountain network branching out from Baguio along the highways with no redundant routes, " +
+      "so every link is a bridge.",
+    drill: "A landslide on the Halsema Highway cuts Buguias–Bontoc, and the Banaue site goes down.",
+    graph: cordilleraTree,
+    failures: { links: [["bug", "bon"]], sites: ["bnu"] },
+  },
+]
+
+export const findScenario = (id: string): Scenario | undefined => scenarios.find((scenario) => scenario.id === id)
+
+// Deactivate a scenario's preset links and fail its preset sites; unknown ids are ignored
+export function applyScenarioFailures(graph: Graph, failures: ScenarioFailures): Graph {
+  return {
+    nodes: graph.nodes.map((node) => (failures.sites.includes(node.id) ? { ...node, isFailed: true } : node)),
+    edges: graph.edges.map((edge) =>
+      failures.links.some(([a, b]) => connects(edge, a, b)) ? { ...edge, isActive: false } : edge,
+    ),
+  }
+}
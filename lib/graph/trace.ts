@@ -0,0 +1,90 @@
+import type { TraceEvent } from "./types"
+
+// Format a path or edge weight for display
+export function formatWeight(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(1) : "∞"
+}
+
+// Turn a trace event into the human-readable line shown in the Algorithm Log
+export function describeTraceEvent(event: TraceEvent, getLabel: (id: string) => string): string {
+  switch (event.type) {
+    case "dfs-root":
+      return `Starting DFS tree ${event.component} at ${getLabel(event.node)}`
+    case "visit":
+      return event.discovery === undefined
+        ? `Visiting ${getLabel(event.node)}`
+        : `Visiting ${getLabel(event.node)} (discovery time ${event.discovery})`
+    case "low-link":
+      return `Low-link of ${getLabel(event.node)} lowered to ${event.low} via ${getLabel(event.via)}`
+    case "finish":
+      return `Finished ${getLabel(event.node)}`
+    case "explore":
+      return `Exploring edge from ${getLabel(event.from)} to ${getLabel(event.to)}`
+    case "back-edge":
+      return `Back edge from ${getLabel(event.from)} to ${getLabel(event.to)}`
+    case "articulation-point":
+      return event.isRoot
+        ? `Root is an articulation point: ${getLabel(event.node)}`
+        : `Found articulation point: ${getLabel(event.node)}`
+    case "bridge":
+      return `Found bridge: ${getLabel(event.source)} - ${getLabel(event.target)}`
+    case "bfs-start":
+      return `Starting BFS from ${getLabel(event.node)}`
+    case "discover":
+      return `Discovered ${getLabel(event.node)} from ${getLabel(event.from)}`
+    case "target-found":
+      return `Found target: ${getLabel(event.node)}`
+    case "path-found":
+      return `Shortest path: ${event.path.map(getLabel).join(" → ")}`
+    case "no-path":
+      return `No path exists from ${getLabel(event.source)} to ${getLabel(event.target)}`
+    case "search-start":
+      return `Starting ${event.algorithm === "astar" ? "A*" : "Dijkstra"} search by ${event.metric} from ${getLabel(event.node)}`
+    case "settle":
+      return `Settled ${getLabel(event.node)} at ${formatWeight(event.distance)}`
+    case "relax":
+      return `Updated ${getLabel(event.to)} via ${getLabel(event.from)} to ${formatWeight(event.distance)}`
+    case "path-cost":
+      return `Total ${event.metric}: ${formatWeight(event.cost)}`
+    case "augment":
+      return `Augmenting ${event.amount} Mbps along ${event.path.map(getLabel).join(" → ")}`
+    case "max-flow":
+      return `Maximum flow: ${event.value} Mbps`
+    case "min-cut":
+      return `Bottleneck link: ${getLabel(event.source)} - ${getLabel(event.target)} (${event.capacity} Mbps)`
+    case "block":
+      return `Block ${event.index}: ${event.nodes.map(getLabel).join(", ")}`
+    case "two-edge-component":
+      return `2-edge-connected component ${event.index}: ${event.nodes.map(getLabel).join(", ")}`
+    case "recovery-start":
+      return "Starting network recovery process..."
+    case "all-connected":
+      return "All nodes are connected. No recovery needed."
+    case "disconnected":
+      return `Found ${event.nodes.length} disconnected nodes: ${event.nodes.map(getLabel).join(", ")}`
+    case "components":
+      return `Network is split into ${event.count} components`
+    case "reconnect":
+      return `Reconnecting ${getLabel(event.source)} to ${getLabel(event.target)}`
+    case "recovery-total": {
+      const summary = `Added ${event.links} recovery links, total length ${formatWeight(event.distance)}`
+      if (!event.baseline) return summary
+      const saved = event.baseline.distance - event.distance
+      return `${summary} (per-node nearest neighbor: ${event.baseline.links} links, ${formatWeight(event.baseline.distance)}; saves ${formatWeight(saved)})`
+    }
+    case "impact": {
+      const { impact } = event
+      const people = `${impact.population.toLocaleString()} people in ${impact.households.toLocaleString()} households`
+      const byType = (["hub", "city", "barangay"] as const)
+        .filter((type) => impact.byType[type].sites > 0)
+        .map((type) => `${type} ${impact.byType[type].population.toLocaleString()}`)
+        .join(", ")
+      if (event.stage === "after") {
+        return impact.sites === 0
+          ? "With these links every site reaches a hub again"
+          : `Still cut off with these links: ${impact.sites} sites, ${people}`
+      }
+      return `Cut off from every hub: ${impact.sites} sites, ${people} (${byType})`
+    }
+  }
+}
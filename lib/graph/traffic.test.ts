@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { removeEdge } from "./editing"
+import { initialGraph } from "./initial-graph"
+import { buildHubDemands, routeTraffic } from "./traffic"
+import type { Graph } from "./types"
+
+describe("buildHubDemands", () => {
+  it("sends every city and barangay to its nearest hub", () => {
+    const demands = buildHubDemands(initialGraph)
+
+    expect(demands).toHaveLength(9)
+    expect(demands.find((demand) => demand.source === "6")).toEqual({ source: "6", target: "3", mbps: 10 })
+    expect(demands.find((demand) => demand.source === "13")).toEqual({ source: "13", target: "11", mbps: 10 })
+    expect(demands.find((demand) => demand.source === "9")).toEqual({ source: "9", target: "8", mbps: 50 })
+  })
+
+  it("points cut-off sites at the closest hub on the map", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      nodes: initialGraph.nodes.map((node) => (node.id === "12" ? { ...node, isFailed: true } : node)),
+    }
+
+    expect(buildHubDemands(graph, { barangay: 5 })).toContainEqual({ source: "13", target: "11", mbps: 5 })
+    expect(buildHubDemands(graph, { barangay: 5 }).every((demand) => demand.mbps === 5)).toBe(true)
+  })
+})
+
+describe("routeTraffic", () => {
+  it("adds up the load of every demand on the links it crosses", () => {
+    const result = routeTraffic(initialGraph, buildHubDemands(initialGraph))
+
+    // Baco's 10 Mbps goes through Banilad, which adds its own 50 Mbps on the way to Mandaue Hub
+    expect(result.demands.find((demand) => demand.source === "7")?.path).toEqual(["7", "4", "3"])
+    expect(result.load[4]).toBe(60)
+    expect(result.utilization[4]).toBeCloseTo(60 / 500)
+    expect(result.overloaded).toEqual([])
+    expect(result.totalDemand).toBe(330)
+    expect(result.unmetDemand).toBe(0)
+  })
+
+  it("only reports links that are still there after one is removed", () => {
+    // Drop Mandaue Hub – Banilad, so Banilad's traffic goes round through Baco
+    const graph = removeEdge(initialGraph, 4)
+    const result = routeTraffic(graph, buildHubDemands(graph))
+
+    expect(result.demands.find((demand) => demand.source === "4")?.path).toEqual(["4", "7", "5", "3"])
+    expect(result.load).toHaveLength(graph.edges.length)
+    expect(result.utilization).toHaveLength(graph.edges.length)
+    expect(result.overloaded.every((edgeIndex) => graph.edges[edgeIndex] !== undefined)).toBe(true)
+    result.demands.forEach((demand) => {
+      expect(demand.links.every((edgeIndex) => graph.edges[edgeIndex] !== undefined)).toBe(true)
+    })
+  })
+
+  it("flags overloaded links and shares their capacity out", () => {
+    const result = routeTraffic(initialGraph, [{ source: "6", target: "3", mbps: 80 }])
+
+    expect(result.overloaded).toEqual([7])
+    expect(result.utilization[7]).toBeCloseTo(1.6)
+    expect(result.demands[0].delivered).toBeCloseTo(50)
+    expect(result.unmetDemand).toBeCloseTo(30)
+  })
+
+  it("leaves demands without a path unmet", () => {
+    const graph: Graph = {
+      ...initialGraph,
+      edges: initialGraph.edges.map((edge, idx) => (idx === 11 ? { ...edge, isActive: false } : edge)),
+    }
+
+    const result = routeTraffic(graph, [{ source: "13", target: "11", mbps: 20 }])
+    expect(result.demands[0]).toMatchObject({ path: [], links: [], delivered: 0 })
+    expect(result.unmetDemand).toBe(20)
+  })
+})
@@ -0,0 +1,105 @@
+import { buildAdjacencyList, getActiveNodes } from "./adjacency"
+import { nodeDistance } from "./geo"
+import { getEdgeCapacity } from "./max-flow"
+import type { Graph, NodeType, RoutedDemand, TrafficDemand, TrafficResult } from "./types"
+
+// Mbps each site type needs to its nearest hub when no other figure is given
+export const DEFAULT_DEMAND_MBPS: Partial<Record<NodeType, number>> = { city: 50, barangay: 10 }
+
+// Breadth-first search from the given start nodes, returning the node and edge each node was reached by
+const searchFrom = (graph: Graph, starts: string[]) => {
+  const adjList = buildAdjacencyList(graph)
+  const via: Record<string, { from: string; edge: number } | null> = {}
+  const queue = starts.filter((id) => adjList[id])
+  queue.forEach((id) => (via[id] = null))
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const { node: neighbor, edge } of adjList[current]) {
+      if (via[neighbor] !== undefined) continue
+      via[neighbor] = { from: current, edge }
+      queue.push(neighbor)
+    }
+  }
+
+  return via
+}
+
+// One demand from every working city and barangay to its nearest hub by hop count. Sites cut off from every hub
+// still get a demand, to the closest working hub on the map, so it shows up as unmet.
+export function buildHubDemands(
+  graph: Graph,
+  mbpsByType: Partial<Record<NodeType, number>> = DEFAULT_DEMAND_MBPS,
+): TrafficDemand[] {
+  const nodes = getActiveNodes(graph)
+  const hubs = nodes.filter((node) => node.type === "hub")
+  if (hubs.length === 0) return []
+
+  const via = searchFrom(
+    graph,
+    hubs.map((hub) => hub.id),
+  )
+  const nearestHub = (id: string): string => {
+    let current = id
+    while (via[current]) current = via[current]!.from
+    return current
+  }
+
+  return nodes.flatMap((node) => {
+    const mbps = mbpsByType[node.type] ?? 0
+    if (node.type === "hub" || mbps <= 0) return []
+    const target =
+      via[node.id] !== undefined
+        ? nearestHub(node.id)
+        : hubs.reduce((best, hub) => (nodeDistance(node, hub) < nodeDistance(node, best) ? hub : best)).id
+    return [{ source: node.id, target, mbps }]
+  })
+}
+
+// Route every demand over its fewest-hop path, as shortest-path routing would regardless of capacity, and add up
+// the load on each link. Demands crossing an overloaded link only get that link's capacity share through, and
+// demands with no path get nothing.
+export function routeTraffic(graph: Graph, demands: TrafficDemand[]): TrafficResult {
+  const load = graph.edges.map(() => 0)
+  const searches = new Map<string, ReturnType<typeof searchFrom>>()
+
+  const routes = demands.map((demand) => {
+    if (!searches.has(demand.target)) searches.set(demand.target, searchFrom(graph, [demand.target]))
+    const via = searches.get(demand.target)!
+
+    const path: string[] = []
+    const links: number[] = []
+    if (via[demand.source] !== undefined) {
+      for (let current = demand.source; ; current = via[current]!.from) {
+        path.push(current)
+        if (!via[current]) break
+        links.push(via[current]!.edge)
+      }
+    }
+
+    links.forEach((edge) => (load[edge] += demand.mbps))
+    return { ...demand, path, links }
+  })
+
+  const utilization = graph.edges.map((edge, idx) => {
+    const capacity = getEdgeCapacity(edge)
+    return capacity > 0 ? load[idx] / capacity : load[idx] > 0 ? Number.POSITIVE_INFINITY : 0
+  })
+  const routed: RoutedDemand[] = routes.map((route) => ({
+    ...route,
+    delivered:
+      route.path.length === 0
+        ? 0
+        : route.mbps * Math.min(1, ...route.links.map((edge) => 1 / Math.max(utilization[edge], 1))),
+  }))
+
+  const totalDemand = demands.reduce((total, demand) => total + demand.mbps, 0)
+  return {
+    demands: routed,
+    load,
+    utilization,
+    overloaded: utilization.flatMap((value, idx) => (value > 1 ? [idx] : [])),
+    totalDemand,
+    unmetDemand: totalDemand - routed.reduce((total, demand) => total + demand.delivered, 0),
+  }
+}
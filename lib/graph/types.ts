@@ -0,0 +1,311 @@
+// Core types shared by the graph algorithms and the simulator UI
+
+export type NodeType = "city" | "barangay" | "hub"
+
+export type Node = {
+  id: string
+  label: string
+  x: number
+  y: number
+  // Geographic position in degrees; when present, distances are great-circle kilometers
+  lat?: number
+  lng?: number
+  type: NodeType
+  // People and households served by the site, used to weigh outage impact
+  population?: number
+  households?: number
+  isArticulationPoint?: boolean
+  // A failed site is treated as removed, along with all of its links
+  isFailed?: boolean
+}
+
+export type Edge = {
+  source: string
+  target: string
+  isBridge?: boolean
+  isActive: boolean
+  isRecovery?: boolean
+  // Undersea cable between islands, drawn in blue
+  isSubmarine?: boolean
+  // Optional link attributes; each defaults to the length between the endpoints
+  // (great-circle kilometers for geolocated nodes, canvas units otherwise)
+  distance?: number
+  latency?: number
+  cost?: number
+  // Bandwidth in Mbps, used by the max-flow analysis
+  capacity?: number
+  // Chance (0 to 1) that the link is down at any moment, used by the Monte Carlo analysis
+  failureProbability?: number
+  // Mean time between failures and mean time to repair in hours, used by the outage simulation
+  mtbf?: number
+  mttr?: number
+}
+
+export type EdgeMetric = "distance" | "latency" | "cost"
+
+export type Graph = {
+  nodes: Node[]
+  edges: Edge[]
+}
+
+// A single step recorded while an algorithm runs, rendered by the Algorithm Log
+export type TraceEvent =
+  | { type: "dfs-root"; node: string; component: number }
+  | { type: "visit"; node: string; discovery?: number }
+  | { type: "low-link"; node: string; low: number; via: string }
+  | { type: "finish"; node: string }
+  | { type: "explore"; from: string; to: string }
+  | { type: "back-edge"; from: string; to: string }
+  | { type: "articulation-point"; node: string; isRoot: boolean }
+  | { type: "bridge"; source: string; target: string }
+  | { type: "bfs-start"; node: string }
+  | { type: "discover"; node: string; from: string }
+  | { type: "target-found"; node: string }
+  | { type: "path-found"; path: string[] }
+  | { type: "no-path"; source: string; target: string }
+  | { type: "search-start"; node: string; algorithm: WeightedAlgorithm; metric: EdgeMetric }
+  | { type: "settle"; node: string; distance: number }
+  | { type: "relax"; from: string; to: string; distance: number }
+  | { type: "path-cost"; cost: number; metric: EdgeMetric }
+  | { type: "augment"; path: string[]; amount: number }
+  | { type: "max-flow"; value: number }
+  | { type: "min-cut"; source: string; target: string; capacity: number }
+  | { type: "block"; index: number; nodes: string[] }
+  | { type: "two-edge-component"; index: number; nodes: string[] }
+  | { type: "recovery-start" }
+  | { type: "all-connected" }
+  | { type: "disconnected"; nodes: string[] }
+  | { type: "components"; count: number }
+  | { type: "reconnect"; source: string; target: string }
+  | { type: "recovery-total"; links: number; distance: number; baseline?: RecoveryBaseline }
+  | { type: "impact"; stage: "before" | "after"; impact: OutageImpact }
+
+// Algorithm state after replaying a trace up to some step, used to animate the canvas
+export type TraceState = {
+  current: string | null
+  visited: string[]
+  // BFS queue, DFS stack or Dijkstra/A* open set, depending on the algorithm
+  frontier: string[]
+  discovery: Record<string, number>
+  low: Record<string, number>
+  bridges: [string, string][]
+  articulationPoints: string[]
+  path: string[]
+}
+
+export type CriticalPointsResult = {
+  bridges: Edge[]
+  articulationPoints: string[]
+  // Node ids of each tree in the DFS forest, one per connected component
+  components: string[][]
+  trace: TraceEvent[]
+}
+
+// A biconnected component: survives the loss of any single node inside it
+export type Block = {
+  nodes: string[]
+  // Indices into graph.edges
+  edges: number[]
+}
+
+export type BlockCutTree = {
+  cutVertices: string[]
+  links: { block: number; cutVertex: string }[]
+}
+
+export type DecompositionResult = {
+  blocks: Block[]
+  twoEdgeComponents: string[][]
+  blockCutTree: BlockCutTree
+  trace: TraceEvent[]
+}
+
+export type ShortestPathResult = {
+  path: string[]
+  trace: TraceEvent[]
+}
+
+export type WeightedAlgorithm = "dijkstra" | "astar"
+
+export type WeightedPathResult = {
+  path: string[]
+  cost: number
+  trace: TraceEvent[]
+}
+
+export type MaxFlowResult = {
+  maxFlow: number
+  // Signed flow per edge index, positive in the edge's source → target direction
+  flows: number[]
+  minCut: Edge[]
+  sourceSide: string[]
+  trace: TraceEvent[]
+}
+
+export type RecoveryProposal = {
+  source: string
+  target: string
+  distance: number
+}
+
+// Links and total length the per-node nearest-neighbor strategy would have added
+export type RecoveryBaseline = {
+  links: number
+  distance: number
+}
+
+export type RecoveryResult = {
+  hub: string | null
+  disconnected: string[]
+  proposals: RecoveryProposal[]
+  totalDistance: number
+  baseline?: RecoveryBaseline
+  trace: TraceEvent[]
+}
+
+// Estimated chance that a site can reach a working hub, with a confidence interval
+export type SiteReliability = {
+  node: string
+  // Samples in which the site reached a hub
+  connected: number
+  probability: number
+  low: number
+  high: number
+}
+
+export type ReliabilityResult = {
+  samples: number
+  // Confidence level of each site's interval, e.g. 0.95
+  confidence: number
+  sites: SiteReliability[]
+}
+
+export type Point = {
+  x: number
+  y: number
+}
+
+// Region hit by a disaster, in canvas coordinates
+export type DisasterArea = { kind: "circle"; center: Point; radius: number } | { kind: "polygon"; points: Point[] }
+
+export type AreaOutageResult = {
+  graph: Graph
+  // Sites inside the area
+  failedSites: string[]
+  // Indices of working links inside or crossing the area
+  failedLinks: number[]
+  // Working sites outside the area that could reach a hub before and no longer can
+  isolatedSites: string[]
+}
+
+// Whether backup paths may share sites, or only have to avoid each other's links
+export type DisjointMode = "edge" | "node"
+
+export type DisjointPathsResult = {
+  mode: DisjointMode
+  // Paths from source to target in order of length, sharing no links (or, node-disjoint, no sites between the ends)
+  paths: string[][]
+  // Edge indices used by each path, hop by hop
+  links: number[][]
+  // When fewer paths exist than requested, the smallest set of links and sites every further path would
+  // have to pass through: a single link is a bridge, a single site an articulation point
+  cutLinks: number[]
+  cutSites: string[]
+}
+
+// Survive any single link failure, or any single site failure as well
+export type RedundancyGoal = "two-edge" | "biconnected"
+
+// Aim for as few links as possible, or keep the total length of new links down; both are greedy estimates
+export type RedundancyObjective = "fewest" | "shortest"
+
+export type RedundancyPlan = {
+  goal: RedundancyGoal
+  objective: RedundancyObjective
+  // New links in the order they were chosen
+  proposals: RecoveryProposal[]
+  totalDistance: number
+  bridgesBefore: number
+  bridgesAfter: number
+  articulationPointsBefore: number
+  articulationPointsAfter: number
+}
+
+export type OutageEvent = {
+  // Hours since the start of the simulation
+  time: number
+  type: "fail" | "repair-start" | "repair"
+  // Index into graph.edges
+  edge: number
+}
+
+export type SiteAvailability = {
+  node: string
+  // Share of the simulated time the site could reach a working hub
+  availability: number
+  // Hours without a route to a hub
+  downtime: number
+  // Times the site lost its last route to a hub
+  outages: number
+}
+
+export type OutageSimulationResult = {
+  duration: number
+  crews: number
+  events: OutageEvent[]
+  sites: SiteAvailability[]
+  totalDowntime: number
+}
+
+// Traffic a site needs to exchange with another, usually its nearest hub
+export type TrafficDemand = {
+  source: string
+  target: string
+  mbps: number
+}
+
+export type RoutedDemand = TrafficDemand & {
+  // Fewest-hop route, empty when the target can't be reached
+  path: string[]
+  links: number[]
+  // Share of the demand that gets through once overloaded links are shared out
+  delivered: number
+}
+
+export type TrafficResult = {
+  demands: RoutedDemand[]
+  // Mbps carried by each edge, and that load as a share of the edge's capacity
+  load: number[]
+  utilization: number[]
+  // Edge indices carrying more than their capacity
+  overloaded: number[]
+  totalDemand: number
+  unmetDemand: number
+}
+
+export type ImpactTotals = {
+  sites: number
+  population: number
+  households: number
+}
+
+// Sites that cannot reach any working hub, failed ones included, and the people and households they serve
+export type OutageImpact = ImpactTotals & {
+  cutOff: string[]
+  byType: Record<NodeType, ImpactTotals>
+}
+
+// Damage from losing one link or site, compared with the network as it is
+export type CriticalElement = ({ kind: "link"; edge: number } | { kind: "site"; node: string }) & {
+  // Sites newly cut off from every hub, the lost one included
+  disconnected: number
+  populationLost: number
+  // Extra hops to the nearest hub, averaged over the sites that can still reach one
+  hopIncrease: number
+}
+
+export type CriticalityResult = {
+  // Average hops from each connected city and barangay to its nearest hub before anything is removed
+  averageHops: number
+  elements: CriticalElement[]
+}
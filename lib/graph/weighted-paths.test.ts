@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import { initialGraph } from "./initial-graph"
+import { findShortestPath } from "./paths"
+import type { Graph } from "./types"
+import { findWeightedPath } from "./weighted-paths"
+import { getEdgeWeight, getPathWeight, indexNodes } from "./weights"
+
+// A square where the direct link is one hop but much slower than going around
+const square: Graph = {
+  nodes: [
+    { id: "a", label: "A", x: 0, y: 0, type: "hub" },
+    { id: "b", label: "B", x: 100, y: 0, type: "city" },
+    { id: "c", label: "C", x: 100, y: 100, type: "city" },
+    { id: "d", label: "D", x: 0, y: 100, type: "barangay" },
+  ],
+  edges: [
+    { source: "a", target: "b", isActive: true, latency: 5 },
+    { source: "b", target: "c", isActive: true, latency: 5 },
+    { source: "a", target: "c", isActive: true, latency: 50 },
+    { source: "c", target: "d", isActive: true },
+  ],
+}
+
+describe("getEdgeWeight", () => {
+  it("defaults to the Euclidean length between endpoints", () => {
+    const nodesById = indexNodes(square)
+
+    expect(getEdgeWeight(square.edges[2], "distance", nodesById)).toBeCloseTo(Math.hypot(100, 100))
+    expect(getEdgeWeight(square.edges[3], "latency", nodesById)).toBe(100)
+    expect(getEdgeWeight(square.edges[0], "latency", nodesById)).toBe(5)
+  })
+})
+
+describe("findWeightedPath", () => {
+  it("minimizes the chosen metric rather than hop count", () => {
+    const result = findWeightedPath(square, "a", "c", { metric: "latency" })
+
+    expect(result.path).toEqual(["a", "b", "c"])
+    expect(result.cost).toBe(10)
+    expect(findShortestPath(square, "a", "c").path).toEqual(["a", "c"])
+  })
+
+  it("agrees with Dijkstra when using A*", () => {
+    for (const target of ["6", "9", "13"]) {
+      const dijkstra = findWeightedPath(initialGraph, "7", target)
+      const astar = findWeightedPath(initialGraph, "7", target, { algorithm: "astar" })
+
+      expect(astar.cost).toBeCloseTo(dijkstra.cost)
+      expect(astar.path[astar.path.length - 1]).toBe(target)
+    }
+  })
+
+  it("settles fewer nodes with A* on the sample network", () => {
+    const settled = (algorithm: "dijkstra" | "astar") =>
+      findWeightedPath(initialGraph, "6", "13", { algorithm }).trace.filter((event) => event.type === "settle").length
+
+    expect(settled("astar")).toBeLessThan(settled("dijkstra"))
+  })
+
+  it("picks the cheaper of two parallel links", () => {
+    const graph: Graph = {
+      nodes: square.nodes.slice(0, 2),
+      edges: [
+        { source: "a", target: "b", isActive: true, cost: 9 },
+        { source: "b", target: "a", isActive: true, cost: 3 },
+      ],
+    }
+
+    expect(findWeightedPath(graph, "a", "b", { metric: "cost" }).cost).toBe(3)
+    expect(getPathWeight(graph, ["a", "b"], "cost")).toBe(3)
+  })
+
+  it("reports when no path exists", () => {
+    const graph: Graph = { ...square, edges: square.edges.slice(0, 3) }
+    const result = findWeightedPath(graph, "a", "d", { algorithm: "astar" })
+
+    expect(result.path).toEqual([])
+    expect(result.cost).toBe(Number.POSITIVE_INFINITY)
+  })
+})
@@ -0,0 +1,110 @@
+import { buildAdjacencyList } from "./adjacency"
+import { hasCoordinates, nodeDistance } from "./geo"
+import type { EdgeMetric, Graph, TraceEvent, WeightedAlgorithm, WeightedPathResult } from "./types"
+import { getEdgeWeight, indexNodes } from "./weights"
+
+type WeightedPathOptions = {
+  metric?: EdgeMetric
+  algorithm?: WeightedAlgorithm
+}
+
+// Find the cheapest path between two nodes with Dijkstra's algorithm or A*
+export function findWeightedPath(
+  graph: Graph,
+  source: string,
+  target: string,
+  { metric = "distance", algorithm = "dijkstra" }: WeightedPathOptions = {},
+): WeightedPathResult {
+  const trace: TraceEvent[] = []
+  const adjList = buildAdjacencyList(graph)
+  const nodesById = indexNodes(graph)
+
+  if (!adjList[source] || !adjList[target]) {
+    trace.push({ type: "no-path", source, target })
+    return { path: [], cost: Number.POSITIVE_INFINITY, trace }
+  }
+
+  const weights = graph.edges.map((edge) => getEdgeWeight(edge, metric, nodesById))
+
+  // A* uses the straight-line distance to the target, scaled down by the smallest weight-to-length
+  // ratio of any active link so the estimate never overshoots and the result stays optimal.
+  // Mixing geolocated and canvas-only nodes mixes units, so A* then falls back to Dijkstra's order.
+  const geolocated = graph.nodes.filter(hasCoordinates).length
+  const consistentUnits = geolocated === 0 || geolocated === graph.nodes.length
+  let heuristicScale = 0
+  if (algorithm === "astar" && consistentUnits) {
+    heuristicScale = Number.POSITIVE_INFINITY
+    graph.edges.forEach((edge, index) => {
+      const a = nodesById.get(edge.source)
+      const b = nodesById.get(edge.target)
+      if (!edge.isActive || !a || !b) return
+      const length = nodeDistance(a, b)
+      if (length > 0) heuristicScale = Math.min(heuristicScale, weights[index] / length)
+    })
+    if (!Number.isFinite(heuristicScale)) heuristicScale = 0
+  }
+
+  const targetNode = nodesById.get(target)!
+  const heuristic = (id: string) => heuristicScale * nodeDistance(nodesById.get(id)!, targetNode)
+
+  const dist: Record<string, number> = { [source]: 0 }
+  const prev: Record<string, string | null> = { [source]: null }
+  const settled = new Set<string>()
+  const open = new Set<string>([source])
+
+  trace.push({ type: "search-start", node: source, algorithm, metric })
+
+  while (open.size > 0) {
+    // Pick the open node with the lowest estimated total cost
+    let current: string | null = null
+    let best = Number.POSITIVE_INFINITY
+    open.forEach((id) => {
+      const score = dist[id] + heuristic(id)
+      if (score < best) {
+        best = score
+        current = id
+      }
+    })
+    if (current === null) break
+    const u: string = current
+
+    open.delete(u)
+    settled.add(u)
+    trace.push({ type: "settle", node: u, distance: dist[u] })
+
+    if (u === target) {
+      trace.push({ type: "target-found", node: target })
+      break
+    }
+
+    for (const { node: v, edge } of adjList[u]) {
+      if (settled.has(v)) continue
+
+      const candidate = dist[u] + weights[edge]
+      if (dist[v] === undefined || candidate < dist[v]) {
+        dist[v] = candidate
+        prev[v] = u
+        open.add(v)
+        trace.push({ type: "relax", from: u, to: v, distance: candidate })
+      }
+    }
+  }
+
+  if (!settled.has(target)) {
+    trace.push({ type: "no-path", source, target })
+    return { path: [], cost: Number.POSITIVE_INFINITY, trace }
+  }
+
+  // Reconstruct path from the target back to the source
+  const path: string[] = []
+  let current: string | null = target
+
+  while (current !== null) {
+    path.unshift(current)
+    current = prev[current]
+  }
+
+  trace.push({ type: "path-found", path })
+  trace.push({ type: "path-cost", cost: dist[target], metric })
+  return { path, cost: dist[target], trace }
+}
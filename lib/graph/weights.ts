@@ -0,0 +1,37 @@
+import { nodeDistance } from "./geo"
+import type { Edge, EdgeMetric, Graph, Node } from "./types"
+
+export const edgeMetrics: EdgeMetric[] = ["distance", "latency", "cost"]
+
+// Weight of an edge under the given metric, falling back to the straight-line length between its endpoints
+export function getEdgeWeight(edge: Edge, metric: EdgeMetric, nodesById: Map<string, Node>): number {
+  const value = edge[metric]
+  if (value !== undefined) return value
+
+  const source = nodesById.get(edge.source)
+  const target = nodesById.get(edge.target)
+  return source && target ? nodeDistance(source, target) : 0
+}
+
+export function indexNodes(graph: Graph): Map<string, Node> {
+  return new Map(graph.nodes.map((node) => [node.id, node]))
+}
+
+// Total weight of a path, using the cheapest active link between each consecutive pair of nodes
+export function getPathWeight(graph: Graph, path: string[], metric: EdgeMetric): number {
+  const nodesById = indexNodes(graph)
+  let total = 0
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const candidates = graph.edges.filter(
+      (edge) =>
+        edge.isActive &&
+        ((edge.source === path[i] && edge.target === path[i + 1]) ||
+          (edge.source === path[i + 1] && edge.target === path[i])),
+    )
+    if (candidates.length === 0) return Number.POSITIVE_INFINITY
+    total += Math.min(...candidates.map((edge) => getEdgeWeight(edge, metric, nodesById)))
+  }
+
+  return total
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  currentEntry,
+  HISTORY_LIMIT,
+  jumpTo,
+  pushHistory,
+  redo,
+  undo,
+} from "./history"
+
+describe("history", () => {
+  it("undoes and redoes in order", () => {
+    let history = createHistory("Start", 0)
+    history = pushHistory(history, "One", 1)
+    history = pushHistory(history, "Two", 2)
+
+    expect(canRedo(history)).toBe(false)
+    history = undo(undo(history))
+    expect(currentEntry(history)).toEqual({ label: "Start", state: 0 })
+    expect(canUndo(history)).toBe(false)
+    expect(undo(history)).toEqual(history)
+
+    history = redo(history)
+    expect(currentEntry(history).state).toBe(1)
+    expect(canRedo(history)).toBe(true)
+  })
+
+  it("drops the redo branch when a new state is recorded", () => {
+    const history = pushHistory(
+      undo(pushHistory(pushHistory(createHistory("Start", 0), "One", 1), "Two", 2)),
+      "Three",
+      3,
+    )
+
+    expect(history.entries.map((entry) => entry.label)).toEqual(["Start", "One", "Three"])
+    expect(history.index).toBe(2)
+  })
+
+  it("jumps to any entry, clamped to the recorded range", () => {
+    const history = pushHistory(pushHistory(createHistory("Start", 0), "One", 1), "Two", 2)
+
+    expect(jumpTo(history, 1).index).toBe(1)
+    expect(jumpTo(history, -5).index).toBe(0)
+    expect(jumpTo(history, 99).index).toBe(2)
+  })
+
+  it("merges repeated edits into one step when asked", () => {
+    let history = createHistory("Start", "")
+    history = pushHistory(history, "Rename", "C", true)
+    history = pushHistory(history, "Rename", "Ce", true)
+    history = pushHistory(history, "Rename", "Ceb", true)
+
+    expect(history.entries).toEqual([
+      { label: "Start", state: "" },
+      { label: "Rename", state: "Ceb" },
+    ])
+  })
+
+  it("keeps at most the configured number of entries", () => {
+    let history = createHistory("Start", 0)
+    for (let i = 1; i <= HISTORY_LIMIT + 5; i++) history = pushHistory(history, `Step ${i}`, i)
+
+    expect(history.entries).toHaveLength(HISTORY_LIMIT)
+    expect(currentEntry(history).state).toBe(HISTORY_LIMIT + 5)
+    expect(history.entries[0].state).toBe(6)
+  })
+})
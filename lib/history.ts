@@ -0,0 +1,43 @@
+// Oldest entries are dropped beyond this many
+export const HISTORY_LIMIT = 100
+
+export type HistoryEntry<T> = {
+  label: string
+  state: T
+}
+
+// Linear undo history; entries after `index` are the ones redo brings back
+export type History<T> = {
+  entries: HistoryEntry<T>[]
+  index: number
+}
+
+export const createHistory = <T>(label: string, state: T): History<T> => ({ entries: [{ label, state }], index: 0 })
+
+export const currentEntry = <T>(history: History<T>): HistoryEntry<T> => history.entries[history.index]
+
+export const canUndo = <T>(history: History<T>) => history.index > 0
+
+export const canRedo = <T>(history: History<T>) => history.index < history.entries.length - 1
+
+// Record a new state after the current one, discarding anything that could have been redone.
+// With `merge`, a repeat of the current entry's label replaces it instead, so typing a label is one step.
+export function pushHistory<T>(history: History<T>, label: string, state: T, merge = false): History<T> {
+  const kept = history.entries.slice(0, history.index + 1)
+  if (merge && !canRedo(history) && kept[kept.length - 1].label === label && kept.length > 1) {
+    kept[kept.length - 1] = { label, state }
+    return { entries: kept, index: kept.length - 1 }
+  }
+
+  const entries = [...kept, { label, state }].slice(-HISTORY_LIMIT)
+  return { entries, index: entries.length - 1 }
+}
+
+// Move to any recorded entry, clamped to the ones that exist
+export function jumpTo<T>(history: History<T>, index: number): History<T> {
+  return { ...history, index: Math.max(0, Math.min(history.entries.length - 1, index)) }
+}
+
+export const undo = <T>(history: History<T>) => jumpTo(history, history.index - 1)
+
+export const redo = <T>(history: History<T>) => jumpTo(history, history.index + 1)
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+import { edgeColumns, guessColumnMapping, importCsvTopology, nodeColumns, parseCsv, type CsvTable } from "./csv"
+
+const sheet = <Field extends string>(table: CsvTable, fields: readonly Field[]) => ({
+  table,
+  mapping: guessColumnMapping(table.headers, fields),
+})
+
+describe("parseCsv", () => {
+  it("handles quotes, CRLF and blank lines, keeping file line numbers", () => {
+    const table = parseCsv('\uFEFFid,Name\r\n1,"Cebu, Main"\r\n\r\n2,"Say ""hi"""\n3,"two\nlines"\n4,Last')
+
+    expect(table.headers).toEqual(["id", "Name"])
+    expect(table.rows).toEqual([
+      { line: 2, cells: ["1", "Cebu, Main"] },
+      { line: 4, cells: ["2", 'Say "hi"'] },
+      { line: 5, cells: ["3", "two\nlines"] },
+      { line: 7, cells: ["4", "Last"] },
+    ])
+  })
+})
+
+describe("guessColumnMapping", () => {
+  it("matches field names and common aliases case-insensitively", () => {
+    expect(guessColumnMapping(["Site ID", "Name", "Latitude", "Lon", "Type"], nodeColumns)).toEqual({
+      label: "Name",
+      type: "Type",
+      lat: "Latitude",
+      lng: "Lon",
+    })
+    expect(guessColumnMapping(["From", "To", "Capacity", "P_Fail"], edgeColumns)).toEqual({
+      source: "From",
+      target: "To",
+      capacity: "Capacity",
+      failureProbability: "P_Fail",
+    })
+  })
+})
+
+describe("importCsvTopology", () => {
+  const nodes = parseCsv(
+    [
+      "site,name,kind,latitude,longitude,state",
+      "cebu,Cebu Hub,Hub,10.3157,123.8854,",
+      "mandaue,Mandaue,city,10.3236,123.9223,up",
+      "lapu,Lapu-Lapu,barangay,10.3103,123.9494,down",
+      ",Nameless,city,10.3,123.9,",
+      "mandaue,Duplicate,city,10.3,123.9,",
+      "talisay,Talisay,tower,10.24,123.84,",
+      "minglanilla,Minglanilla,barangay,north,123.79,",
+    ].join("\n"),
+  )
+  const edges = parseCsv(
+    [
+      "from,to,status,capacity",
+      "cebu,mandaue,active,1000",
+      "mandaue,lapu,failed,",
+      "cebu,talisay,,100",
+      "cebu,lapu,maintenance,-5",
+    ].join("\n"),
+  )
+
+  const nodeSheet = { table: nodes, mapping: { ...guessColumnMapping(nodes.headers, nodeColumns), id: "site" } }
+
+  it("imports the good rows and lists problem rows by number", () => {
+    const result = importCsvTopology(nodeSheet, sheet(edges, edgeColumns))
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+
+    expect(result.graph.nodes.map((node) => node.id)).toEqual(["cebu", "mandaue", "lapu"])
+    expect(result.graph.nodes[0]).toMatchObject({ label: "Cebu Hub", type: "hub", lat: 10.3157, lng: 123.8854 })
+    expect(result.graph.nodes[2].isFailed).toBe(true)
+    expect(result.graph.edges).toEqual([
+      { source: "cebu", target: "mandaue", isActive: true, capacity: 1000 },
+      { source: "mandaue", target: "lapu", isActive: false },
+    ])
+    expect(result.warnings).toEqual([
+      'Nodes row 5: "id" is empty',
+      'Nodes row 6: duplicate id "mandaue"',
+      'Nodes row 7: unknown type "tower", expected one of hub, city, barangay',
+      'Nodes row 8: "lat" and "lng" must be valid degrees',
+      'Edges row 4: target "talisay" does not match any imported site',
+      'Edges row 5: unknown status "maintenance"; "capacity" must be a non-negative number',
+    ])
+  })
+
+  it("uses canvas coordinates when no lat/lng columns are mapped", () => {
+    const table = parseCsv("id,type,x,y\na,hub,10,20\nb,city,oops,5")
+    const result = importCsvTopology(sheet(table, nodeColumns))
+
+    expect(result).toEqual({
+      ok: true,
+      graph: { nodes: [{ id: "a", label: "a", x: 10, y: 20, type: "hub" }], edges: [] },
+      warnings: ['Nodes row 3: "x" and "y" must be numbers'],
+    })
+  })
+
+  it("fails only when required columns are unmapped or no site is usable", () => {
+    expect(importCsvTopology(sheet(nodes, nodeColumns), { table: edges, mapping: {} })).toEqual({
+      ok: false,
+      errors: ['Nodes CSV: choose the column for "id"', 'Edges CSV: choose the columns for "source" and "target"'],
+    })
+    expect(importCsvTopology(sheet(parseCsv("id,type,x,y\na,tower,1,1"), nodeColumns))).toEqual({
+      ok: false,
+      errors: ['Nodes row 2: unknown type "tower", expected one of hub, city, barangay', "Nodes CSV: no usable sites"],
+    })
+  })
+})
@@ -0,0 +1,254 @@
+import { projectToCanvas, type Edge, type Node, type NodeType } from "@/lib/graph"
+import { checkOptionalNumber, nodeTypes, optionalEdgeNumbers, optionalNodeNumbers, type ImportResult } from "./json"
+
+export type CsvRow = {
+  // Line in the file where the record starts, counting the header as line 1
+  line: number
+  cells: string[]
+}
+
+export type CsvTable = {
+  headers: string[]
+  rows: CsvRow[]
+}
+
+export const nodeColumns = [
+  "id",
+  "label",
+  "type",
+  "x",
+  "y",
+  "lat",
+  "lng",
+  "status",
+  "population",
+  "households",
+] as const
+export const edgeColumns = [
+  "source",
+  "target",
+  "status",
+  "distance",
+  "latency",
+  "cost",
+  "capacity",
+  "failureProbability",
+  "mtbf",
+  "mttr",
+] as const
+
+export type NodeColumn = (typeof nodeColumns)[number]
+export type EdgeColumn = (typeof edgeColumns)[number]
+
+// Which CSV header feeds each field; unmapped fields are left out
+export type ColumnMapping<Field extends string> = Partial<Record<Field, string>>
+
+export type CsvSheet<Field extends string> = {
+  table: CsvTable
+  mapping: ColumnMapping<Field>
+}
+
+// Other header names spreadsheets commonly use for a field
+const columnAliases: Record<string, string[]> = {
+  label: ["name"],
+  type: ["kind", "site type"],
+  lat: ["latitude"],
+  lng: ["lon", "long", "longitude"],
+  source: ["from"],
+  target: ["to"],
+  status: ["state"],
+  failureProbability: ["failure probability", "failure_probability", "p_fail"],
+}
+
+const failedStatuses = ["failed", "down", "inactive"]
+const activeStatuses = ["", "active", "up", "ok"]
+
+// Split CSV text into rows, honoring quoted fields with commas, quotes and line breaks
+export function parseCsv(text: string): CsvTable {
+  const records: CsvRow[] = []
+  let cells: string[] = []
+  let cell = ""
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const endRecord = () => {
+    cells.push(cell)
+    if (cells.some((value) => value.trim() !== "")) records.push({ line: recordLine, cells })
+    cells = []
+    cell = ""
+  }
+
+  const source = text.replace(/^\uFEFF/, "")
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === "\n") line++
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      cells.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++
+      endRecord()
+      line++
+      recordLine = line
+    } else {
+      cell += char
+    }
+  }
+  endRecord()
+
+  const [header, ...rows] = records
+  return { headers: header ? header.cells.map((value) => value.trim()) : [], rows }
+}
+
+// Pre-fill the column mapping from headers that match a field name or a common alias
+export function guessColumnMapping<Field extends string>(
+  headers: string[],
+  fields: readonly Field[],
+): ColumnMapping<Field> {
+  const mapping: ColumnMapping<Field> = {}
+  fields.forEach((field) => {
+    const names = [field.toLowerCase(), ...(columnAliases[field] ?? [])]
+    const header = headers.find((value) => names.includes(value.trim().toLowerCase()))
+    if (header !== undefined) mapping[field] = header
+  })
+  return mapping
+}
+
+// Read the mapped cells of a row, trimmed; unmapped fields read as ""
+const readRow = <Field extends string>({ table, mapping }: CsvSheet<Field>, row: CsvRow) => {
+  return (field: Field): string => {
+    const header = mapping[field]
+    if (header === undefined) return ""
+    return (row.cells[table.headers.indexOf(header)] ?? "").trim()
+  }
+}
+
+const parseNumber = (value: string): number | null => {
+  const number = Number(value)
+  return value !== "" && Number.isFinite(number) ? number : null
+}
+
+// Build a topology from a nodes sheet and an optional edges sheet.
+// Rows with problems are skipped and listed by line number; only missing mappings or no usable sites fail the import.
+export function importCsvTopology(nodeSheet: CsvSheet<NodeColumn>, edgeSheet?: CsvSheet<EdgeColumn>): ImportResult {
+  const errors: string[] = []
+  const { mapping } = nodeSheet
+  const geographic = mapping.lat !== undefined && mapping.lng !== undefined
+
+  if (mapping.id === undefined) errors.push('Nodes CSV: choose the column for "id"')
+  if (mapping.type === undefined) errors.push('Nodes CSV: choose the column for "type"')
+  if (!geographic && (mapping.x === undefined || mapping.y === undefined)) {
+    errors.push('Nodes CSV: choose columns for "lat" and "lng", or for "x" and "y"')
+  }
+  if (edgeSheet && (edgeSheet.mapping.source === undefined || edgeSheet.mapping.target === undefined)) {
+    errors.push('Edges CSV: choose the columns for "source" and "target"')
+  }
+  if (errors.length > 0) return { ok: false, errors }
+
+  const warnings: string[] = []
+  const nodes: Node[] = []
+
+  nodeSheet.table.rows.forEach((row) => {
+    const where = `Nodes row ${row.line}`
+    const cell = readRow(nodeSheet, row)
+    const problems: string[] = []
+
+    const id = cell("id")
+    if (id === "") problems.push('"id" is empty')
+    else if (nodes.some((node) => node.id === id)) problems.push(`duplicate id "${id}"`)
+
+    const type = cell("type").toLowerCase() as NodeType
+    if (!nodeTypes.includes(type)) {
+      problems.push(`unknown type "${cell("type")}", expected one of ${nodeTypes.join(", ")}`)
+    }
+
+    const status = cell("status").toLowerCase()
+    if (!failedStatuses.includes(status) && !activeStatuses.includes(status)) {
+      problems.push(`unknown status "${cell("status")}"`)
+    }
+
+    const node: Node = { id, label: cell("label") || id, x: 0, y: 0, type }
+    if (geographic) {
+      const lat = parseNumber(cell("lat"))
+      const lng = parseNumber(cell("lng"))
+      if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        problems.push('"lat" and "lng" must be valid degrees')
+      } else {
+        node.lat = lat
+        node.lng = lng
+      }
+    } else {
+      const x = parseNumber(cell("x"))
+      const y = parseNumber(cell("y"))
+      if (x === null || y === null) {
+        problems.push('"x" and "y" must be numbers')
+      } else {
+        node.x = x
+        node.y = y
+      }
+    }
+    optionalNodeNumbers.forEach((key) => {
+      if (cell(key) === "") return
+      const value = parseNumber(cell(key))
+      const problem = checkOptionalNumber(key, value)
+      if (problem) problems.push(problem)
+      else node[key] = value!
+    })
+    if (failedStatuses.includes(status)) node.isFailed = true
+
+    if (problems.length > 0) warnings.push(`${where}: ${problems.join("; ")}`)
+    else nodes.push(node)
+  })
+
+  if (nodes.length === 0) return { ok: false, errors: [...warnings, "Nodes CSV: no usable sites"] }
+
+  if (geographic) {
+    const positions = projectToCanvas(nodes.map((node) => ({ lat: node.lat!, lng: node.lng! })))
+    nodes.forEach((node, idx) => Object.assign(node, positions[idx]))
+  }
+
+  const edges: Edge[] = []
+
+  edgeSheet?.table.rows.forEach((row) => {
+    const where = `Edges row ${row.line}`
+    const cell = readRow(edgeSheet, row)
+    const problems: string[] = []
+
+    const source = cell("source")
+    const target = cell("target")
+    if (!nodes.some((node) => node.id === source)) problems.push(`source "${source}" does not match any imported site`)
+    if (!nodes.some((node) => node.id === target)) problems.push(`target "${target}" does not match any imported site`)
+
+    const status = cell("status").toLowerCase()
+    if (!failedStatuses.includes(status) && !activeStatuses.includes(status)) {
+      problems.push(`unknown status "${cell("status")}"`)
+    }
+
+    const edge: Edge = { source, target, isActive: !failedStatuses.includes(status) }
+    optionalEdgeNumbers.forEach((key) => {
+      if (cell(key) === "") return
+      const value = parseNumber(cell(key))
+      const problem = checkOptionalNumber(key, value)
+      if (problem) problems.push(problem)
+      else edge[key] = value!
+    })
+
+    if (problems.length > 0) warnings.push(`${where}: ${problems.join("; ")}`)
+    else edges.push(edge)
+  })
+
+  return { ok: true, graph: { nodes, edges }, warnings }
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest"
+import { haversineKm } from "@/lib/graph"
+import { lineLengthKm, parseGeoJson } from "./geojson"
+
+const point = (id: string, type: string, lng: number, lat: number, extra: Record<string, unknown> = {}) => ({
+  type: "Feature",
+  properties: { id, name: id.toUpperCase(), type, ...extra },
+  geometry: { type: "Point", coordinates: [lng, lat] },
+})
+
+const line = (coordinates: number[][], properties: Record<string, unknown> = {}) => ({
+  type: "Feature",
+  properties,
+  geometry: { type: "LineString", coordinates },
+})
+
+const collection = (...features: unknown[]) => JSON.stringify({ type: "FeatureCollection", features })
+
+describe("parseGeoJson", () => {
+  it("builds a projected, geolocated topology", () => {
+    const result = parseGeoJson(
+      collection(
+        point("cebu", "hub", 123.8854, 10.3157),
+        point("mandaue", "city", 123.9223, 10.3236),
+        point("lapu", "barangay", 123.9494, 10.3103, { status: "failed" }),
+        line(
+          [
+            [123.8854, 10.3157],
+            [123.9, 10.33],
+            [123.9223, 10.3236],
+          ],
+          { capacity: 1000 },
+        ),
+        line(
+          [
+            [123.9223, 10.3236],
+            [123.9494, 10.3103],
+          ],
+          { source: "mandaue", target: "lapu", status: "failed" },
+        ),
+        { type: "Feature", properties: {}, geometry: { type: "Polygon", coordinates: [] } },
+      ),
+    )
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.warnings).toEqual(['Feature 6: skipped unsupported geometry type "Polygon"'])
+
+    const [cebu, mandaue, lapu] = result.graph.nodes
+    expect(cebu).toMatchObject({ id: "cebu", label: "CEBU", type: "hub", lat: 10.3157, lng: 123.8854 })
+    expect(lapu.isFailed).toBe(true)
+    expect(cebu.x).toBeLessThan(mandaue.x)
+    ;[cebu, mandaue, lapu].forEach((node) => {
+      expect(node.x).toBeGreaterThanOrEqual(40)
+      expect(node.x).toBeLessThanOrEqual(560)
+      expect(node.y).toBeGreaterThanOrEqual(40)
+      expect(node.y).toBeLessThanOrEqual(410)
+    })
+
+    const [backbone, lastMile] = result.graph.edges
+    expect(backbone).toMatchObject({ source: "cebu", target: "mandaue", isActive: true, capacity: 1000 })
+    // Follows the cable route, which is longer than the straight line
+    expect(backbone.distance).toBeGreaterThan(
+      haversineKm({ lat: 10.3157, lng: 123.8854 }, { lat: 10.3236, lng: 123.9223 }),
+    )
+    expect(lastMile.isActive).toBe(false)
+  })
+
+  it("reports unknown types and unmatched link ends", () => {
+    const result = parseGeoJson(
+      collection(
+        point("a", "tower", 120, 10),
+        point("b", "city", 121, 10),
+        line([
+          [120, 10],
+          [125, 12],
+        ]),
+      ),
+    )
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'Feature 1 (a): unknown type "tower", expected one of hub, city, barangay',
+        "Feature 3: end of link does not match any site",
+      ],
+    })
+  })
+
+  it("reports figures the other importers would reject", () => {
+    const result = parseGeoJson(
+      collection(
+        point("a", "hub", 120, 10, { population: -5 }),
+        point("b", "city", 121, 10, { households: null }),
+        line(
+          [
+            [120, 10],
+            [121, 10],
+          ],
+          { capacity: -5, failureProbability: 5, latency: "fast", mttr: 0 },
+        ),
+      ),
+    )
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'Feature 1 (a): "population" must be a non-negative number',
+        'Feature 3: "latency" must be a non-negative number',
+        'Feature 3: "capacity" must be a non-negative number',
+        'Feature 3: "failureProbability" must be between 0 and 1',
+        'Feature 3: "mttr" must be greater than 0',
+      ],
+    })
+  })
+
+  it("rejects coordinates outside valid degrees", () => {
+    const result = parseGeoJson(
+      collection(
+        point("a", "hub", 120, 95),
+        point("b", "city", 181, 10),
+        line([
+          [120, 10],
+          [120, -91],
+        ]),
+      ),
+    )
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        "Feature 1: Point coordinates must be [longitude, latitude] in valid degrees",
+        "Feature 2: Point coordinates must be [longitude, latitude] in valid degrees",
+        "Feature 3: LineString needs at least two [longitude, latitude] positions in valid degrees",
+        "No Point features found",
+      ],
+    })
+  })
+
+  it("rejects anything but a FeatureCollection", () => {
+    expect(parseGeoJson("{}")).toMatchObject({ ok: false })
+    expect(parseGeoJson("not json")).toMatchObject({ ok: false })
+    expect(parseGeoJson(collection())).toEqual({ ok: false, errors: ["No Point features found"] })
+  })
+})
+
+describe("lineLengthKm", () => {
+  it("adds up each segment", () => {
+    expect(
+      lineLengthKm([
+        [120, 0],
+        [120, 1],
+        [120, 2],
+      ]),
+    ).toBeCloseTo(2 * 111.19, 0)
+  })
+})
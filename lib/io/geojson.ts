@@ -0,0 +1,148 @@
+import { haversineKm, projectToCanvas, type Edge, type Node, type NodeType } from "@/lib/graph"
+import { checkOptionalNumber, nodeTypes, optionalEdgeNumbers, optionalNodeNumbers, type ImportResult } from "./json"
+
+type Position = [number, number]
+
+// Endpoints closer than this (in degrees, roughly 100 m) are treated as the same site
+const ENDPOINT_TOLERANCE = 0.001
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// A [longitude, latitude] pair within ±180 and ±90 degrees
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number" &&
+  Math.abs(value[0]) <= 180 &&
+  Math.abs(value[1]) <= 90
+
+// GeoJSON positions are [longitude, latitude]
+const toLatLng = ([lng, lat]: Position) => ({ lat, lng })
+
+// Missing and null properties both mean the figure was left out
+const isBlank = (value: unknown) => value === undefined || value === null
+
+// Length of a polyline in kilometers
+export function lineLengthKm(coordinates: Position[]): number {
+  let total = 0
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    total += haversineKm(toLatLng(coordinates[i]), toLatLng(coordinates[i + 1]))
+  }
+  return total
+}
+
+// Read sites from Point features and links from LineString features, projecting lat/long onto the canvas.
+// Links name their endpoints with "source"/"target" properties, or are matched to the Point at each end.
+export function parseGeoJson(text: string): ImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { ok: false, errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  if (!isRecord(data) || data.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+    return { ok: false, errors: ['GeoJSON must be a FeatureCollection with a "features" array'] }
+  }
+
+  const errors: string[] = []
+  const warnings: string[] = []
+  const nodes: Omit<Node, "x" | "y">[] = []
+  const lines: { where: string; coordinates: Position[]; properties: Record<string, unknown> }[] = []
+
+  data.features.forEach((feature: unknown, idx: number) => {
+    const where = `Feature ${idx + 1}`
+    if (!isRecord(feature) || !isRecord(feature.geometry)) {
+      warnings.push(`${where}: skipped, no geometry`)
+      return
+    }
+
+    const properties = isRecord(feature.properties) ? feature.properties : {}
+    const { type, coordinates } = feature.geometry
+
+    if (type === "Point") {
+      if (!isPosition(coordinates)) {
+        errors.push(`${where}: Point coordinates must be [longitude, latitude] in valid degrees`)
+        return
+      }
+
+      const id = String(properties.id ?? feature.id ?? idx + 1)
+      if (nodes.some((node) => node.id === id)) errors.push(`${where}: duplicate id "${id}"`)
+      if (!nodeTypes.includes(properties.type as NodeType)) {
+        errors.push(
+          `${where} (${id}): unknown type "${String(properties.type)}", expected one of ${nodeTypes.join(", ")}`,
+        )
+      }
+
+      const node: Omit<Node, "x" | "y"> = {
+        id,
+        label: String(properties.label ?? properties.name ?? id),
+        type: properties.type as NodeType,
+        ...toLatLng(coordinates),
+      }
+      optionalNodeNumbers.forEach((key) => {
+        if (isBlank(properties[key])) return
+        const problem = checkOptionalNumber(key, properties[key])
+        if (problem) errors.push(`${where} (${id}): ${problem}`)
+        else node[key] = properties[key] as number
+      })
+      if (properties.status === "failed") node.isFailed = true
+      nodes.push(node)
+    } else if (type === "LineString") {
+      if (!Array.isArray(coordinates) || coordinates.length < 2 || !coordinates.every(isPosition)) {
+        errors.push(`${where}: LineString needs at least two [longitude, latitude] positions in valid degrees`)
+        return
+      }
+      lines.push({ where, coordinates, properties })
+    } else {
+      warnings.push(`${where}: skipped unsupported geometry type "${String(type)}"`)
+    }
+  })
+
+  // Resolve a link endpoint by id, or by the Point at that position
+  const resolveEndpoint = (id: unknown, position: Position): string | null => {
+    if (id !== undefined) return nodes.some((node) => node.id === String(id)) ? String(id) : null
+    const { lat, lng } = toLatLng(position)
+    const match = nodes.find(
+      (node) => Math.abs(node.lat! - lat) <= ENDPOINT_TOLERANCE && Math.abs(node.lng! - lng) <= ENDPOINT_TOLERANCE,
+    )
+    return match ? match.id : null
+  }
+
+  const edges: Edge[] = []
+
+  lines.forEach(({ where, coordinates, properties }) => {
+    const source = resolveEndpoint(properties.source, coordinates[0])
+    const target = resolveEndpoint(properties.target, coordinates[coordinates.length - 1])
+
+    if (!source) errors.push(`${where}: start of link does not match any site`)
+    if (!target) errors.push(`${where}: end of link does not match any site`)
+    if (!source || !target) return
+
+    // Without a stated distance, the link is as long as its route
+    const edge: Edge = { source, target, isActive: properties.status !== "failed", distance: lineLengthKm(coordinates) }
+    if (properties.isRecovery === true) edge.isRecovery = true
+    if (properties.isSubmarine === true) edge.isSubmarine = true
+    optionalEdgeNumbers.forEach((key) => {
+      if (isBlank(properties[key])) return
+      const problem = checkOptionalNumber(key, properties[key])
+      if (problem) errors.push(`${where}: ${problem}`)
+      else edge[key] = properties[key] as number
+    })
+
+    edges.push(edge)
+  })
+
+  if (nodes.length === 0) errors.push("No Point features found")
+  if (errors.length > 0) return { ok: false, errors }
+
+  const positions = projectToCanvas(nodes.map((node) => ({ lat: node.lat!, lng: node.lng! })))
+
+  return {
+    ok: true,
+    graph: { nodes: nodes.map((node, idx) => ({ ...node, ...positions[idx] })), edges },
+    warnings,
+  }
+}
@@ -0,0 +1,6 @@
+export * from "./csv"
+export * from "./download"
+export * from "./geojson"
+export * from "./json"
+export * from "./sessions"
+export * from "./share"
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest"
+import { initialGraph, scenarios, type Graph } from "@/lib/graph"
+import { exportTopology, parseTopology, TOPOLOGY_SCHEMA_VERSION } from "./json"
+
+const file = (graph: unknown, version: unknown = TOPOLOGY_SCHEMA_VERSION) => JSON.stringify({ version, graph })
+
+describe("exportTopology / parseTopology", () => {
+  it("round-trips a topology with failures and recovery links", () => {
+    const graph: Graph = {
+      nodes: initialGraph.nodes.map((node) =>
+        node.id === "3" ? { ...node, isFailed: true, isArticulationPoint: true } : node,
+      ),
+      edges: [
+        ...initialGraph.edges.map((edge, idx) => (idx === 0 ? { ...edge, isActive: false, isBridge: true } : edge)),
+        { source: "10", target: "4", isActive: true, isRecovery: true, latency: 12 },
+      ],
+    }
+
+    const result = parseTopology(exportTopology(graph))
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.graph.nodes.find((node) => node.id === "3")).toEqual({
+      id: "3",
+      label: "Mandaue Hub",
+      x: 150,
+      y: 250,
+      type: "hub",
+      isFailed: true,
+    })
+    expect(result.graph.edges[0]).toEqual({ source: "1", target: "2", isActive: false, capacity: 1000 })
+    expect(result.graph.edges[result.graph.edges.length - 1]).toEqual({
+      source: "10",
+      target: "4",
+      isActive: true,
+      isRecovery: true,
+      latency: 12,
+    })
+  })
+
+  it("rejects malformed JSON and unsupported versions", () => {
+    expect(parseTopology("{ nodes: ")).toMatchObject({ ok: false })
+    expect(parseTopology(JSON.stringify(initialGraph))).toEqual({ ok: false, errors: ['Missing schema "version"'] })
+    expect(parseTopology(file(initialGraph, 99))).toMatchObject({ ok: false })
+  })
+
+  it("reports dangling endpoints, duplicate ids and unknown types together", () => {
+    const result = parseTopology(
+      file({
+        nodes: [
+          { id: "a", label: "A", x: 0, y: 0, type: "hub" },
+          { id: "a", label: "A again", x: 10, y: 0, type: "city" },
+          { id: "b", label: "B", x: 20, y: 0, type: "tower" },
+        ],
+        edges: [
+          { source: "a", target: "b", isActive: true },
+          { source: "a", target: "z", isActive: true, capacity: -5 },
+        ],
+      }),
+    )
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'Node 2: duplicate id "a"',
+        'Node 3 (b): unknown type "tower", expected one of hub, city, barangay',
+        'Edge 2: target "z" does not match any node id',
+        'Edge 2: "capacity" must be a non-negative number',
+      ],
+    })
+  })
+
+  it("defaults missing link status to active", () => {
+    const result = parseTopology(
+      file({
+        nodes: [
+          { id: "a", label: "A", x: 0, y: 0, type: "hub" },
+          { id: "b", label: "B", x: 20, y: 0, type: "barangay" },
+        ],
+        edges: [{ source: "a", target: "b" }],
+      }),
+    )
+
+    expect(result).toEqual({
+      ok: true,
+      warnings: [],
+      graph: {
+        nodes: [
+          { id: "a", label: "A", x: 0, y: 0, type: "hub" },
+          { id: "b", label: "B", x: 20, y: 0, type: "barangay" },
+        ],
+        edges: [{ source: "a", target: "b", isActive: true }],
+      },
+    })
+  })
+})
+
+describe("geolocated topologies", () => {
+  it("keeps lat/lng through a round trip and rejects half a location", () => {
+    const graph: Graph = {
+      nodes: [{ id: "a", label: "A", x: 0, y: 0, type: "hub", lat: 10.3157, lng: 123.8854 }],
+      edges: [],
+    }
+
+    expect(parseTopology(exportTopology(graph))).toEqual({ ok: true, warnings: [], graph })
+    expect(parseTopology(file({ nodes: [{ ...graph.nodes[0], lng: undefined }], edges: [] }))).toEqual({
+      ok: false,
+      errors: ['Node 1 (a): "lat" and "lng" must be given together as valid degrees'],
+    })
+  })
+})
+
+describe("bundled scenarios", () => {
+  it.each(scenarios.map((scenario) => [scenario.id, scenario.graph] as const))("%s round-trips", (_, graph) => {
+    expect(parseTopology(exportTopology(graph))).toEqual({ ok: true, warnings: [], graph })
+  })
+})
+
+describe("failure probabilities", () => {
+  it("keeps them through a round trip and rejects values above 1", () => {
+    const graph: Graph = {
+      nodes: initialGraph.nodes.slice(0, 2),
+      edges: [{ source: "1", target: "2", isActive: true, failureProbability: 0.2 }],
+    }
+
+    expect(parseTopology(exportTopology(graph))).toEqual({ ok: true, warnings: [], graph })
+    expect(parseTopology(file({ ...graph, edges: [{ ...graph.edges[0], failureProbability: 1.5 }] }))).toEqual({
+      ok: false,
+      errors: ['Edge 1: "failureProbability" must be between 0 and 1'],
+    })
+  })
+})
+
+describe("repair figures", () => {
+  it("keeps MTBF and MTTR through a round trip", () => {
+    const graph: Graph = {
+      nodes: initialGraph.nodes.slice(0, 2),
+      edges: [{ source: "1", target: "2", isActive: true, mtbf: 500, mttr: 4 }],
+    }
+
+    expect(parseTopology(exportTopology(graph))).toEqual({ ok: true, warnings: [], graph })
+  })
+
+  it("rejects zero MTBF and MTTR", () => {
+    const graph: Graph = {
+      nodes: initialGraph.nodes.slice(0, 2),
+      edges: [{ source: "1", target: "2", isActive: true, mtbf: 0, mttr: 0 }],
+    }
+
+    expect(parseTopology(file(graph))).toEqual({
+      ok: false,
+      errors: ['Edge 1: "mtbf" must be greater than 0', 'Edge 1: "mttr" must be greater than 0'],
+    })
+  })
+})
+
+describe("population", () => {
+  it("keeps population figures and rejects negative ones", () => {
+    const graph: Graph = { nodes: initialGraph.nodes.slice(0, 2), edges: [] }
+
+    expect(parseTopology(exportTopology(graph))).toEqual({ ok: true, warnings: [], graph })
+    expect(parseTopology(file({ ...graph, nodes: [{ ...graph.nodes[1], population: -5 }] }))).toEqual({
+      ok: false,
+      errors: ['Node 1 (2): "population" must be a non-negative number'],
+    })
+  })
+})
@@ -0,0 +1,197 @@
+import type { Edge, Graph, Node, NodeType } from "@/lib/graph"
+
+// Bump when the exported shape changes, and teach parseTopology to upgrade older versions
+export const TOPOLOGY_SCHEMA_VERSION = 1
+
+export const nodeTypes: NodeType[] = ["hub", "city", "barangay"]
+
+export type TopologyFile = {
+  version: number
+  graph: Graph
+}
+
+export type ImportResult = { ok: true; graph: Graph; warnings: string[] } | { ok: false; errors: string[] }
+
+export const optionalNodeNumbers = ["population", "households"] as const
+export const optionalEdgeNumbers = [
+  "distance",
+  "latency",
+  "cost",
+  "capacity",
+  "failureProbability",
+  "mtbf",
+  "mttr",
+] as const
+
+export type OptionalNumber = (typeof optionalNodeNumbers)[number] | (typeof optionalEdgeNumbers)[number]
+
+// Serialize a topology, dropping analysis flags such as bridges and articulation points
+export function exportTopology(graph: Graph): string {
+  const file: TopologyFile = {
+    version: TOPOLOGY_SCHEMA_VERSION,
+    graph: {
+      nodes: graph.nodes.map((node) => {
+        const exported: Node = { id: node.id, label: node.label, x: node.x, y: node.y, type: node.type }
+        if (node.lat !== undefined && node.lng !== undefined) {
+          exported.lat = node.lat
+          exported.lng = node.lng
+        }
+        optionalNodeNumbers.forEach((key) => {
+          if (node[key] !== undefined) exported[key] = node[key]
+        })
+        if (node.isFailed) exported.isFailed = true
+        return exported
+      }),
+      edges: graph.edges.map((edge) => {
+        const exported: Edge = { source: edge.source, target: edge.target, isActive: edge.isActive }
+        if (edge.isRecovery) exported.isRecovery = true
+        if (edge.isSubmarine) exported.isSubmarine = true
+        optionalEdgeNumbers.forEach((key) => {
+          if (edge[key] !== undefined) exported[key] = edge[key]
+        })
+        return exported
+      }),
+    },
+  }
+
+  return JSON.stringify(file, null, 2)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+// Why an imported site or link figure can't be used, or null when it can. Shared by every importer.
+export function checkOptionalNumber(key: OptionalNumber, value: unknown): string | null {
+  if (!isFiniteNumber(value) || value < 0) return `"${key}" must be a non-negative number`
+  if (key === "failureProbability" && value > 1) return '"failureProbability" must be between 0 and 1'
+  if ((key === "mtbf" || key === "mttr") && value === 0) return `"${key}" must be greater than 0`
+  return null
+}
+
+// Check a parsed graph and collect every problem rather than stopping at the first one
+export function validateGraph(value: unknown): { graph: Graph | null; errors: string[] } {
+  const errors: string[] = []
+
+  if (!isRecord(value) || !Array.isArray(value.nodes) || !Array.isArray(value.edges)) {
+    return { graph: null, errors: ['Topology must have "nodes" and "edges" arrays'] }
+  }
+
+  const nodes: Node[] = []
+  const ids = new Set<string>()
+
+  value.nodes.forEach((raw: unknown, idx: number) => {
+    const where = `Node ${idx + 1}`
+    if (!isRecord(raw)) {
+      errors.push(`${where}: must be an object`)
+      return
+    }
+
+    const { id, label, x, y, lat, lng, type, isFailed } = raw
+    if (typeof id !== "string" || id === "") {
+      errors.push(`${where}: "id" must be a non-empty string`)
+      return
+    }
+    if (ids.has(id)) errors.push(`${where}: duplicate id "${id}"`)
+    ids.add(id)
+
+    if (typeof label !== "string") errors.push(`${where} (${id}): "label" must be a string`)
+    if (!isFiniteNumber(x) || !isFiniteNumber(y)) errors.push(`${where} (${id}): "x" and "y" must be numbers`)
+    if (!nodeTypes.includes(type as NodeType)) {
+      errors.push(`${where} (${id}): unknown type "${String(type)}", expected one of ${nodeTypes.join(", ")}`)
+    }
+    if (isFailed !== undefined && typeof isFailed !== "boolean") {
+      errors.push(`${where} (${id}): "isFailed" must be true or false`)
+    }
+    const hasLocation = lat !== undefined || lng !== undefined
+    if (hasLocation && !(isFiniteNumber(lat) && isFiniteNumber(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180)) {
+      errors.push(`${where} (${id}): "lat" and "lng" must be given together as valid degrees`)
+    }
+
+    const node: Node = {
+      id,
+      label: String(label),
+      x: Number(x),
+      y: Number(y),
+      type: type as NodeType,
+      ...(hasLocation ? { lat: Number(lat), lng: Number(lng) } : {}),
+    }
+    optionalNodeNumbers.forEach((key) => {
+      if (raw[key] === undefined) return
+      const problem = checkOptionalNumber(key, raw[key])
+      if (problem) errors.push(`${where} (${id}): ${problem}`)
+      else node[key] = raw[key] as number
+    })
+    if (isFailed === true) node.isFailed = true
+    nodes.push(node)
+  })
+
+  const edges: Edge[] = []
+
+  value.edges.forEach((raw: unknown, idx: number) => {
+    const where = `Edge ${idx + 1}`
+    if (!isRecord(raw)) {
+      errors.push(`${where}: must be an object`)
+      return
+    }
+
+    const { source, target, isActive, isRecovery, isSubmarine } = raw
+    if (typeof source !== "string" || !ids.has(source)) {
+      errors.push(`${where}: source "${String(source)}" does not match any node id`)
+    }
+    if (typeof target !== "string" || !ids.has(target)) {
+      errors.push(`${where}: target "${String(target)}" does not match any node id`)
+    }
+    if (isActive !== undefined && typeof isActive !== "boolean") {
+      errors.push(`${where}: "isActive" must be true or false`)
+    }
+    if (isRecovery !== undefined && typeof isRecovery !== "boolean") {
+      errors.push(`${where}: "isRecovery" must be true or false`)
+    }
+    if (isSubmarine !== undefined && typeof isSubmarine !== "boolean") {
+      errors.push(`${where}: "isSubmarine" must be true or false`)
+    }
+
+    const edge: Edge = { source: String(source), target: String(target), isActive: isActive !== false }
+    if (isRecovery === true) edge.isRecovery = true
+    if (isSubmarine === true) edge.isSubmarine = true
+
+    optionalEdgeNumbers.forEach((key) => {
+      if (raw[key] === undefined) return
+      const problem = checkOptionalNumber(key, raw[key])
+      if (problem) errors.push(`${where}: ${problem}`)
+      else edge[key] = raw[key] as number
+    })
+
+    edges.push(edge)
+  })
+
+  return { graph: errors.length === 0 ? { nodes, edges } : null, errors }
+}
+
+// Parse and validate an exported topology file
+export function parseTopology(text: string): ImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { ok: false, errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  if (!isRecord(data)) {
+    return { ok: false, errors: ["Topology file must be a JSON object"] }
+  }
+  if (!isFiniteNumber(data.version)) {
+    return { ok: false, errors: ['Missing schema "version"'] }
+  }
+  if (data.version > TOPOLOGY_SCHEMA_VERSION || data.version < 1) {
+    return {
+      ok: false,
+      errors: [`Unsupported schema version ${data.version}; this app reads version ${TOPOLOGY_SCHEMA_VERSION}`],
+    }
+  }
+
+  const { graph, errors } = validateGraph(data.graph)
+  return graph ? { ok: true, graph, warnings: [] } : { ok: false, errors }
+}
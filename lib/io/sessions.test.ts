@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest"
+import { applyScenarioFailures, findCriticalPoints, initialGraph } from "@/lib/graph"
+import {
+  deleteSession,
+  duplicateSession,
+  loadSessions,
+  renameSession,
+  saveSession,
+  SESSION_SCHEMA_VERSION,
+  SESSIONS_STORAGE_KEY,
+  type SessionState,
+} from "./sessions"
+
+const memoryStorage = (initial?: unknown) => {
+  const items = new Map<string, string>()
+  if (initial !== undefined) items.set(SESSIONS_STORAGE_KEY, JSON.stringify(initial))
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  }
+}
+
+const failed = applyScenarioFailures(initialGraph, { links: [["2", "8"]], sites: ["7"] })
+const { bridges, articulationPoints } = findCriticalPoints(failed)
+
+const state: SessionState = {
+  graph: {
+    nodes: failed.nodes.map((node) =>
+      articulationPoints.includes(node.id) ? { ...node, isArticulationPoint: true } : node,
+    ),
+    edges: failed.edges.map((edge) => (bridges.includes(edge) ? { ...edge, isBridge: true } : edge)),
+  },
+  baseGraph: initialGraph,
+  scenarioId: "cebu-palawan-quezon",
+  source: "1",
+  target: "9",
+  mode: "failure",
+  recoveryEdges: [{ source: "8", target: "3", isActive: true, isRecovery: true }],
+  recoveryStats: { proposals: [{ source: "8", target: "3", distance: 111.8 }], totalDistance: 111.8 },
+  path: [],
+  components: [],
+  maxFlow: null,
+  minCutEdges: [],
+  log: ["Drill started"],
+}
+
+describe("saved sessions", () => {
+  it("saves and loads a session with its failures and analysis flags", () => {
+    const storage = memoryStorage()
+    saveSession(storage, "Palawan cut", state, 1000)
+
+    const { sessions, skipped } = loadSessions(storage)
+    expect(skipped).toEqual([])
+    expect(sessions).toHaveLength(1)
+    expect(sessions[0]).toMatchObject({ name: "Palawan cut", createdAt: 1000, version: SESSION_SCHEMA_VERSION })
+    expect(sessions[0].state).toEqual(state)
+    expect(sessions[0].state.graph.edges.some((edge) => edge.isBridge)).toBe(true)
+  })
+
+  it("renames, duplicates and deletes, listing the newest first", () => {
+    const storage = memoryStorage()
+    const [first] = saveSession(storage, "First", state, 1000)
+    saveSession(storage, "Second", state, 2000)
+
+    expect(renameSession(storage, first.id, "Renamed", 3000).map((session) => session.name)).toEqual([
+      "Renamed",
+      "Second",
+    ])
+    expect(duplicateSession(storage, first.id, 4000).map((session) => session.name)).toEqual([
+      "Renamed (copy)",
+      "Renamed",
+      "Second",
+    ])
+    expect(deleteSession(storage, first.id).map((session) => session.name)).toEqual(["Renamed (copy)", "Second"])
+    expect(loadSessions(storage).sessions.map((session) => session.name)).toEqual(["Renamed (copy)", "Second"])
+  })
+
+  it("skips saves it cannot read but keeps them in storage", () => {
+    const future = { id: "f", name: "From the future", version: SESSION_SCHEMA_VERSION + 1, state: {} }
+    const damaged = { id: "d", name: "Damaged", version: 1, state: { graph: { nodes: "?" }, baseGraph: initialGraph } }
+    const storage = memoryStorage([future, damaged])
+
+    expect(loadSessions(storage)).toEqual({
+      sessions: [],
+      skipped: [
+        `"From the future" was saved by an unsupported version (${SESSION_SCHEMA_VERSION + 1}) and was skipped`,
+        '"Damaged" has a damaged network and was skipped',
+      ],
+    })
+
+    saveSession(storage, "New", state, 1000)
+    expect(JSON.parse(storage.getItem(SESSIONS_STORAGE_KEY)!)).toHaveLength(3)
+  })
+
+  it("fills in optional parts that are missing or malformed", () => {
+    const storage = memoryStorage([
+      { id: "a", name: "Minimal", version: 1, state: { graph: initialGraph, baseGraph: initialGraph, mode: "zoom" } },
+    ])
+
+    expect(loadSessions(storage).sessions[0].state).toEqual({
+      graph: initialGraph,
+      baseGraph: initialGraph,
+      scenarioId: null,
+      source: null,
+      target: null,
+      mode: "normal",
+      recoveryEdges: [],
+      recoveryStats: null,
+      path: [],
+      components: [],
+      maxFlow: null,
+      minCutEdges: [],
+      log: [],
+    })
+    expect(loadSessions(memoryStorage("not a list")).sessions).toEqual([])
+  })
+
+  it("drops recovery stats whose proposals or totals are not the expected shape", () => {
+    const withStats = (recoveryStats: unknown) => ({
+      id: "a",
+      name: "Stats",
+      version: 1,
+      state: { graph: initialGraph, baseGraph: initialGraph, recoveryStats },
+    })
+    const proposals = [{ source: "8", target: "3", distance: 111.8 }]
+    const stats = (value: unknown) => loadSessions(memoryStorage([withStats(value)])).sessions[0].state.recoveryStats
+
+    expect(stats({ proposals, totalDistance: 111.8, baseline: { links: 2, distance: 150 } })).toEqual({
+      proposals,
+      totalDistance: 111.8,
+      baseline: { links: 2, distance: 150 },
+    })
+    expect(stats({ proposals: [{ source: "8", target: 3 }], totalDistance: 111.8 })).toBeNull()
+    expect(stats({ proposals, totalDistance: "111.8" })).toBeNull()
+    expect(stats({ proposals, totalDistance: 111.8, baseline: { links: "2" } })).toBeNull()
+  })
+})
@@ -0,0 +1,220 @@
+import { connects, type Edge, type Graph, type RecoveryProposal, type RecoveryResult } from "@/lib/graph"
+import { validateGraph } from "./json"
+import { simulatorModes, type SimulatorMode } from "./share"
+
+// Bump when SessionState changes, and add a migration from the previous version below
+export const SESSION_SCHEMA_VERSION = 1
+
+export const SESSIONS_STORAGE_KEY = "telecom-simulator.sessions"
+
+// Everything the simulator needs to pick up where it left off
+export type SessionState = {
+  graph: Graph
+  baseGraph: Graph
+  scenarioId: string | null
+  source: string | null
+  target: string | null
+  mode: SimulatorMode
+  // Proposed recovery links still waiting for review
+  recoveryEdges: Edge[]
+  recoveryStats: Pick<RecoveryResult, "proposals" | "totalDistance" | "baseline"> | null
+  path: string[]
+  components: string[][]
+  maxFlow: number | null
+  minCutEdges: Edge[]
+  log: string[]
+}
+
+export type SavedSession = {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  version: number
+  state: SessionState
+}
+
+export type SessionStorage = Pick<Storage, "getItem" | "setItem">
+
+export type LoadedSessions = {
+  sessions: SavedSession[]
+  // Saves that could not be read, kept in storage untouched
+  skipped: string[]
+}
+
+// Upgrade a stored state from the version it is keyed under to the next one
+const migrations: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+
+const isEdgeList = (value: unknown): value is Edge[] =>
+  Array.isArray(value) &&
+  value.every((edge) => isRecord(edge) && typeof edge.source === "string" && typeof edge.target === "string")
+
+const orNull = (value: unknown): string | null => (typeof value === "string" ? value : null)
+
+const isProposalList = (value: unknown): value is RecoveryProposal[] =>
+  Array.isArray(value) &&
+  value.every(
+    (proposal) =>
+      isRecord(proposal) &&
+      typeof proposal.source === "string" &&
+      typeof proposal.target === "string" &&
+      typeof proposal.distance === "number",
+  )
+
+// The panel reads every number in the stats, so a save that doesn't match them is dropped whole
+const restoreRecoveryStats = (value: unknown): SessionState["recoveryStats"] => {
+  if (!isRecord(value) || !isProposalList(value.proposals) || typeof value.totalDistance !== "number") return null
+
+  const { baseline } = value
+  if (baseline === undefined) return { proposals: value.proposals, totalDistance: value.totalDistance }
+  if (!isRecord(baseline) || typeof baseline.links !== "number" || typeof baseline.distance !== "number") return null
+
+  return {
+    proposals: value.proposals,
+    totalDistance: value.totalDistance,
+    baseline: { links: baseline.links, distance: baseline.distance },
+  }
+}
+
+// Graphs are re-validated on load, which drops analysis flags, so bridges and articulation
+// points are carried over from the saved graph separately
+const restoreGraph = (value: unknown): Graph | null => {
+  const { graph } = validateGraph(value)
+  if (!graph || !isRecord(value)) return null
+
+  const saved = value as Partial<Graph>
+  const bridges = (saved.edges ?? []).filter((edge) => edge.isBridge)
+  const articulationPoints = new Set((saved.nodes ?? []).filter((node) => node.isArticulationPoint).map((n) => n.id))
+
+  return {
+    nodes: graph.nodes.map((node) => (articulationPoints.has(node.id) ? { ...node, isArticulationPoint: true } : node)),
+    edges: graph.edges.map((edge) =>
+      bridges.some((bridge) => connects(bridge, edge.source, edge.target)) ? { ...edge, isBridge: true } : edge,
+    ),
+  }
+}
+
+// Check a stored state field by field; optional parts that fail fall back to empty
+function restoreState(raw: Record<string, unknown>): SessionState | null {
+  const graph = restoreGraph(raw.graph)
+  const baseGraph = restoreGraph(raw.baseGraph)
+  if (!graph || !baseGraph) return null
+
+  return {
+    graph,
+    baseGraph,
+    scenarioId: orNull(raw.scenarioId),
+    source: orNull(raw.source),
+    target: orNull(raw.target),
+    mode: simulatorModes.includes(raw.mode as SimulatorMode) ? (raw.mode as SimulatorMode) : "normal",
+    recoveryEdges: isEdgeList(raw.recoveryEdges) ? raw.recoveryEdges : [],
+    recoveryStats: restoreRecoveryStats(raw.recoveryStats),
+    path: isStringArray(raw.path) ? raw.path : [],
+    components: Array.isArray(raw.components) && raw.components.every(isStringArray) ? raw.components : [],
+    maxFlow: typeof raw.maxFlow === "number" ? raw.maxFlow : null,
+    minCutEdges: isEdgeList(raw.minCutEdges) ? raw.minCutEdges : [],
+    log: isStringArray(raw.log) ? raw.log : [],
+  }
+}
+
+// Bring one stored session up to the current schema, or explain why it can't be
+function readSession(raw: unknown): SavedSession | string {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.name !== "string" || !isRecord(raw.state)) {
+    return "An unreadable save was skipped"
+  }
+
+  const version = typeof raw.version === "number" ? raw.version : 0
+  if (version > SESSION_SCHEMA_VERSION || version < 1) {
+    return `"${raw.name}" was saved by an unsupported version (${version}) and was skipped`
+  }
+
+  let state = raw.state
+  for (let from = version; from < SESSION_SCHEMA_VERSION; from++) state = migrations[from](state)
+
+  const restored = restoreState(state)
+  if (!restored) return `"${raw.name}" has a damaged network and was skipped`
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+    updatedAt: typeof raw.updatedAt === "number" ? raw.updatedAt : 0,
+    version: SESSION_SCHEMA_VERSION,
+    state: restored,
+  }
+}
+
+// Read every saved session, newest first
+export function loadSessions(storage: SessionStorage): LoadedSessions {
+  let stored: unknown = []
+  try {
+    stored = JSON.parse(storage.getItem(SESSIONS_STORAGE_KEY) ?? "[]")
+  } catch {
+    return { sessions: [], skipped: ["Saved sessions could not be read"] }
+  }
+
+  const sessions: SavedSession[] = []
+  const skipped: string[] = []
+  ;(Array.isArray(stored) ? stored : []).forEach((raw) => {
+    const session = readSession(raw)
+    if (typeof session === "string") skipped.push(session)
+    else sessions.push(session)
+  })
+
+  return { sessions: sessions.sort((a, b) => b.updatedAt - a.updatedAt), skipped }
+}
+
+// Write sessions back, leaving saves this version could not read in place
+const storeSessions = (storage: SessionStorage, update: (sessions: SavedSession[]) => SavedSession[]) => {
+  let stored: unknown[] = []
+  try {
+    const parsed = JSON.parse(storage.getItem(SESSIONS_STORAGE_KEY) ?? "[]")
+    if (Array.isArray(parsed)) stored = parsed
+  } catch {
+    // Nothing readable to keep
+  }
+
+  const unreadable = stored.filter((raw) => typeof readSession(raw) === "string")
+  const sessions = update(loadSessions(storage).sessions)
+  storage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify([...unreadable, ...sessions]))
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+const newSessionId = (now: number) => `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+export function saveSession(storage: SessionStorage, name: string, state: SessionState, now = Date.now()) {
+  const session: SavedSession = {
+    id: newSessionId(now),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    version: SESSION_SCHEMA_VERSION,
+    state,
+  }
+  return storeSessions(storage, (sessions) => [...sessions, session])
+}
+
+export function renameSession(storage: SessionStorage, id: string, name: string, now = Date.now()) {
+  return storeSessions(storage, (sessions) =>
+    sessions.map((session) => (session.id === id ? { ...session, name, updatedAt: now } : session)),
+  )
+}
+
+export function duplicateSession(storage: SessionStorage, id: string, now = Date.now()) {
+  return storeSessions(storage, (sessions) => {
+    const original = sessions.find((session) => session.id === id)
+    if (!original) return sessions
+    const copy = { ...original, id: newSessionId(now), name: `${original.name} (copy)`, createdAt: now, updatedAt: now }
+    return [...sessions, copy]
+  })
+}
+
+export function deleteSession(storage: SessionStorage, id: string) {
+  return storeSessions(storage, (sessions) => sessions.filter((session) => session.id !== id))
+}
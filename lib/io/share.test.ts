@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { addNode, applyScenarioFailures, findScenario, initialGraph } from "@/lib/graph"
+import { decodeShareLink, encodeShareLink } from "./share"
+
+const mindanao = findScenario("mindanao-ring")!
+
+describe("encodeShareLink / decodeShareLink", () => {
+  it("restores a scenario view with its failures, endpoints and mode", () => {
+    const graph = applyScenarioFailures(mindanao.graph, { links: [["cot", "pag"]], sites: ["sur"] })
+    const hash = encodeShareLink({ scenarioId: mindanao.id, graph, source: "dvo", target: "zam", mode: "failure" })
+
+    expect(hash).toBe("v=1&scenario=mindanao-ring&off=3&down=sur&from=dvo&to=zam&mode=failure")
+    expect(decodeShareLink(`#${hash}`)).toEqual({
+      view: {
+        scenarioId: mindanao.id,
+        baseGraph: mindanao.graph,
+        graph,
+        source: "dvo",
+        target: "zam",
+        mode: "failure",
+      },
+      warnings: [],
+    })
+  })
+
+  it("embeds the topology once it differs from the scenario", () => {
+    const edited = addNode(initialGraph, { type: "barangay", x: 500, y: 400 })
+    const graph = {
+      ...edited,
+      edges: edited.edges.map((edge, idx) => (idx === 2 ? { ...edge, isActive: false } : edge)),
+    }
+    const hash = encodeShareLink({
+      scenarioId: "cebu-palawan-quezon",
+      graph,
+      source: null,
+      target: null,
+      mode: "normal",
+    })
+
+    expect(hash).toMatch(/^v=1&topology=[\w-]+&off=2$/)
+
+    const { view, warnings } = decodeShareLink(hash)
+    expect(warnings).toEqual([])
+    expect(view?.scenarioId).toBeNull()
+    expect(view?.graph.nodes.map((node) => node.label)).toEqual(edited.nodes.map((node) => node.label))
+    expect(view?.graph.edges.map((edge) => edge.isActive)).toEqual(graph.edges.map((edge) => edge.isActive))
+    expect(view?.baseGraph.edges.every((edge) => edge.isActive)).toBe(true)
+  })
+
+  it("ignores links without shared state or from another version", () => {
+    expect(decodeShareLink("")).toEqual({ view: null, warnings: [] })
+    expect(decodeShareLink("#v=99&scenario=mindanao-ring")).toEqual({
+      view: null,
+      warnings: ["This link was made by a different version of the simulator and was ignored"],
+    })
+  })
+
+  it("drops whatever no longer fits and keeps the rest", () => {
+    const { view, warnings } = decodeShareLink(
+      "v=1&scenario=mindanao-ring&off=1.99.x&down=dvo&down=nowhere&from=ghost&to=zam&mode=panic",
+    )
+
+    expect(view?.graph.edges.filter((edge) => !edge.isActive)).toEqual([
+      { ...mindanao.graph.edges[1], isActive: false },
+    ])
+    expect(view?.graph.nodes.filter((node) => node.isFailed).map((node) => node.id)).toEqual(["dvo"])
+    expect(view).toMatchObject({ source: null, target: "zam", mode: "normal" })
+    expect(warnings).toEqual([
+      'Ignored failed link "99", which is not in this network',
+      'Ignored failed link "x", which is not in this network',
+      'Ignored failed site "nowhere", which is not in this network',
+      'Ignored source "ghost", which is not in this network',
+      'Ignored unknown mode "panic"',
+    ])
+  })
+
+  it("falls back to the default network for unreadable topologies and unknown scenarios", () => {
+    expect(decodeShareLink("v=1&topology=%%%").view?.scenarioId).toBe("cebu-palawan-quezon")
+    expect(decodeShareLink("v=1&topology=e30").warnings).toEqual([
+      "The shared topology could not be read, so the default network was opened",
+    ])
+    expect(decodeShareLink("v=1&scenario=atlantis")).toMatchObject({
+      view: { scenarioId: "cebu-palawan-quezon", graph: initialGraph },
+      warnings: ['Unknown scenario "atlantis", so the default network was opened'],
+    })
+  })
+})
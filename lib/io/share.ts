@@ -0,0 +1,152 @@
+import { findScenario, scenarios, type Graph } from "@/lib/graph"
+import { exportTopology, parseTopology } from "./json"
+
+// Bump when the link format changes; links with another version open the default view
+export const SHARE_LINK_VERSION = 1
+
+export const simulatorModes = ["normal", "failure", "edit"] as const
+export type SimulatorMode = (typeof simulatorModes)[number]
+
+// Everything a share link restores
+export type SharedView = {
+  // Bundled scenario the topology came from, or null for a custom topology
+  scenarioId: string | null
+  // Topology with every site and link up, which Reset returns to
+  baseGraph: Graph
+  // The same topology with the shared failures applied
+  graph: Graph
+  source: string | null
+  target: string | null
+  mode: SimulatorMode
+}
+
+export type DecodedShareLink = {
+  // Null when the link carries no usable state
+  view: SharedView | null
+  // What had to be dropped or replaced while restoring
+  warnings: string[]
+}
+
+// Topology with every site and link back up
+const intactTopology = (graph: Graph): Graph => ({
+  nodes: graph.nodes.map((node) => ({ ...node, isFailed: false })),
+  edges: graph.edges.map((edge) => ({ ...edge, isActive: true })),
+})
+
+const sameTopology = (a: Graph, b: Graph) => exportTopology(intactTopology(a)) === exportTopology(intactTopology(b))
+
+const toBase64Url = (text: string): string => {
+  let binary = ""
+  new TextEncoder().encode(text).forEach((byte) => (binary += String.fromCharCode(byte)))
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"))
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)))
+}
+
+// Encode the view as URL hash parameters. The topology itself is embedded only when it
+// is not an unmodified bundled scenario, so scenario links stay short.
+export function encodeShareLink(view: Omit<SharedView, "baseGraph">): string {
+  const params = new URLSearchParams({ v: String(SHARE_LINK_VERSION) })
+  const scenario = view.scenarioId ? findScenario(view.scenarioId) : undefined
+
+  if (scenario && sameTopology(scenario.graph, view.graph)) {
+    params.set("scenario", scenario.id)
+  } else {
+    params.set("topology", toBase64Url(exportTopology(intactTopology(view.graph))))
+  }
+
+  const off = view.graph.edges.flatMap((edge, idx) => (edge.isActive ? [] : [idx]))
+  if (off.length > 0) params.set("off", off.join("."))
+  view.graph.nodes.forEach((node) => {
+    if (node.isFailed) params.append("down", node.id)
+  })
+  if (view.source) params.set("from", view.source)
+  if (view.target) params.set("to", view.target)
+  if (view.mode !== "normal") params.set("mode", view.mode)
+
+  return params.toString()
+}
+
+// Restore a view from URL hash parameters, dropping whatever no longer fits rather than failing
+export function decodeShareLink(hash: string): DecodedShareLink {
+  const params = new URLSearchParams(hash.replace(/^#/, ""))
+  const version = params.get("v")
+  if (version === null) return { view: null, warnings: [] }
+  if (version !== String(SHARE_LINK_VERSION)) {
+    return { view: null, warnings: ["This link was made by a different version of the simulator and was ignored"] }
+  }
+
+  const warnings: string[] = []
+  let scenarioId: string | null = null
+  let baseGraph: Graph | null = null
+
+  const topology = params.get("topology")
+  if (topology !== null) {
+    let result: ReturnType<typeof parseTopology>
+    try {
+      result = parseTopology(fromBase64Url(topology))
+    } catch {
+      result = { ok: false, errors: ["Not valid base64"] }
+    }
+    if (result.ok) baseGraph = intactTopology(result.graph)
+    else warnings.push("The shared topology could not be read, so the default network was opened")
+  }
+
+  if (!baseGraph) {
+    const requested = params.get("scenario")
+    const scenario = findScenario(requested ?? "") ?? scenarios[0]
+    if (requested !== null && scenario.id !== requested) {
+      warnings.push(`Unknown scenario "${requested}", so the default network was opened`)
+    }
+    scenarioId = scenario.id
+    baseGraph = scenario.graph
+  }
+
+  const base = baseGraph
+  const off = new Set<number>()
+  ;(params.get("off") ?? "")
+    .split(".")
+    .filter((value) => value !== "")
+    .forEach((value) => {
+      const idx = Number(value)
+      if (Number.isInteger(idx) && idx >= 0 && idx < base.edges.length) off.add(idx)
+      else warnings.push(`Ignored failed link "${value}", which is not in this network`)
+    })
+
+  const ids = new Set(base.nodes.map((node) => node.id))
+  const down = new Set<string>()
+  params.getAll("down").forEach((id) => {
+    if (ids.has(id)) down.add(id)
+    else warnings.push(`Ignored failed site "${id}", which is not in this network`)
+  })
+
+  const endpoint = (key: "from" | "to", name: string) => {
+    const id = params.get(key)
+    if (id === null || ids.has(id)) return id
+    warnings.push(`Ignored ${name} "${id}", which is not in this network`)
+    return null
+  }
+  const source = endpoint("from", "source")
+  const target = endpoint("to", "target")
+
+  const mode = params.get("mode") ?? "normal"
+  if (!simulatorModes.includes(mode as SimulatorMode)) warnings.push(`Ignored unknown mode "${mode}"`)
+
+  return {
+    view: {
+      scenarioId,
+      baseGraph: base,
+      graph: {
+        nodes: base.nodes.map((node) => (down.has(node.id) ? { ...node, isFailed: true } : node)),
+        edges: base.edges.map((edge, idx) => (off.has(idx) ? { ...edge, isActive: false } : edge)),
+      },
+      source,
+      target,
+      mode: simulatorModes.includes(mode as SimulatorMode) ? (mode as SimulatorMode) : "normal",
+    },
+    warnings,
+  }
+}